@@ -1,12 +1,57 @@
 import { app, BrowserWindow, ipcMain, shell, dialog } from 'electron'
-import { join } from 'path'
+import { join, isAbsolute } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { autoUpdater } from 'electron-updater'
 import { checkDependencies, downloadDependencies } from './services/setup'
-import { startDownload, cancelDownload, initializeDownloadQueue, killAllDownloads } from './services/downloader'
-import { getHistory, clearHistory } from './services/history'
+import {
+  startDownload,
+  startPlaylistDownload,
+  resolveCollision,
+  previewFilename,
+  cancelDownload,
+  retryDownload,
+  cancelDownloadGroup,
+  initializeDownloadQueue,
+  killAllDownloads,
+  cleanupPartialDownloads,
+  discardPartialDownload,
+} from './services/downloader'
+import {
+  getHistory,
+  clearHistory,
+  buildOptionsKey,
+  findDuplicate,
+  getDownloadedVideoIds,
+  HistoryItem,
+} from './services/history'
+import { extractVideoId } from './services/videoId'
 import { getDownloadSettings, updateDownloadSettings, DownloadSettings } from './services/settings'
-import { getDownloadQueue } from './services/downloadQueue'
+import { getDownloadQueue, DownloadOptions, SavedDownload } from './services/downloadQueue'
+import { getSavedQueue, persistQueue, stopPersistingQueue } from './services/queuePersistence'
+import { getBandwidthManager } from './services/bandwidth'
+import { getVideoInfo, pruneVideoInfoCache } from './services/videoInfo'
+import {
+  getCookieStatus,
+  importCookieFile,
+  importBrowserCookies,
+  isCookieBrowser,
+  testCookies,
+  removeCookies,
+  clearCookieSessionFile,
+} from './services/cookies'
+import {
+  isAudioFormat,
+  isVideoContainer,
+  parseAudioSource,
+  DEFAULT_AUDIO_FORMAT,
+  DEFAULT_VIDEO_HEIGHT,
+  VIDEO_HEIGHTS,
+} from './services/formats'
+import { parseClipTime, getClipRangeError } from '../shared/clip'
+import { isLoudnessPreset } from './services/loudness'
+import { isSubtitleFormat } from './services/subtitles'
+import { expandPlaylist, isPlaylistURL, PlaylistEntry } from './services/playlist'
+import { getSubscriptionManager, SubscriptionPreset } from './services/subscriptions'
 
 // Platform detection
 const isMac = process.platform === 'darwin'
@@ -62,6 +107,24 @@ function createWindow(): void {
     maxRetries: settings.autoRetry ? settings.maxRetries : 0,
     downloadTimeout: settings.downloadTimeout * 1000,
   })
+  queue.setTimeWindow(settings.downloadWindow)
+  getBandwidthManager().configure(settings.bandwidthLimit, settings.bandwidthProfiles)
+
+  // Subscriptions enqueue through the same path as downloads started from the UI
+  const window = mainWindow
+  const subscriptions = getSubscriptionManager()
+  subscriptions.setWindow(window)
+  subscriptions.setEnqueueFunction((url, options) =>
+    startDownload(window, url, withDownloadSettings(options))
+  )
+  // Failed items stay in the queue until retried or dismissed and count as queued, so a video
+  // that keeps failing isn't added again on every check; once dismissed the next check retries it
+  subscriptions.setQueuedVideosFunction(() =>
+    getDownloadQueue().getQueueStatus().downloads
+      .filter((d) => d.status !== 'completed')
+      .map((d) => d.options.subscription?.videoId ?? extractVideoId(d.url))
+      .filter((videoId): videoId is string => Boolean(videoId))
+  )
 
   mainWindow.on('ready-to-show', () => {
     mainWindow?.show()
@@ -81,6 +144,57 @@ function createWindow(): void {
   }
 }
 
+// Partial files of downloads that left the queue are kept for keepPartialDays
+function cleanupPartials(saved: SavedDownload[]): void {
+  const outputDirs = [
+    ...saved.map((d) => d.options.outputDir),
+    ...getSubscriptionManager().getSubscriptions().map((s) => s.preset.outputDir),
+  ].filter((dir): dir is string => Boolean(dir))
+  const maxAgeMs = getDownloadSettings().keepPartialDays * 24 * 60 * 60 * 1000
+
+  cleanupPartialDownloads(outputDirs, maxAgeMs)
+    .catch((err) => console.error('Failed to clean up partial downloads:', err))
+}
+
+// Ask whether to continue the downloads that were unfinished when the app last quit
+async function offerQueueRestore(saved: SavedDownload[]): Promise<void> {
+  const queue = getDownloadQueue()
+  const lines = saved.slice(0, 5).map((d) => `• ${d.title || d.url}`)
+  if (saved.length > 5) {
+    lines.push(`and ${saved.length - 5} more`)
+  }
+
+  const options: Electron.MessageBoxOptions = {
+    type: 'question',
+    title: 'Unfinished Downloads',
+    message: saved.length === 1
+      ? 'Resume the unfinished download?'
+      : `Resume ${saved.length} unfinished downloads?`,
+    detail: lines.join('\n'),
+    buttons: ['Resume', 'Discard'],
+    defaultId: 0,
+    cancelId: 1,
+  }
+
+  try {
+    const { response } = mainWindow
+      ? await dialog.showMessageBox(mainWindow, options)
+      : await dialog.showMessageBox(options)
+    if (response === 0) {
+      queue.restore(saved)
+    } else {
+      await Promise.all(saved.map((d) => discardPartialDownload(d.id, d.options.outputDir)))
+    }
+  } finally {
+    // Saving starts only now so the old queue survives until the user has decided
+    persistQueue(queue)
+    cleanupPartials(saved)
+
+    // Checked only now so restored subscription downloads aren't enqueued a second time
+    getSubscriptionManager().start()
+  }
+}
+
 app.whenReady().then(() => {
   // Set app user model id
   electronApp.setAppUserModelId('com.tuberun.app')
@@ -92,6 +206,29 @@ app.whenReady().then(() => {
 
   createWindow()
 
+  // Archive subscription downloads once they finish and check for new uploads periodically
+  const queue = getDownloadQueue()
+  const subscriptions = getSubscriptionManager()
+  queue.on('progress', (progress) => subscriptions.handleProgress(progress, queue.getDownload(progress.id)?.options))
+
+  const saved = getSavedQueue()
+  if (saved.length === 0) {
+    persistQueue(queue)
+    cleanupPartials(saved)
+    subscriptions.start()
+  } else {
+    // Once the renderer listens for progress of the restored items
+    mainWindow?.webContents.once('did-finish-load', () => {
+      offerQueueRestore(saved).catch((err) => console.error('Failed to restore queue:', err))
+    })
+  }
+
+  // Expired video info is never read again
+  pruneVideoInfoCache().catch((err) => console.error('Failed to prune video info cache:', err))
+
+  // Decrypted cookies left behind by a crash
+  clearCookieSessionFile()
+
   // Check for updates (not in dev mode)
   if (!is.dev) {
     autoUpdater.checkForUpdatesAndNotify()
@@ -129,9 +266,21 @@ app.on('window-all-closed', () => {
 
 // Clean up download processes before quitting
 app.on('before-quit', () => {
+  // Keep unfinished downloads for the next launch
+  stopPersistingQueue()
+
   // Kill all active downloads
   killAllDownloads()
 
+  // Stop subscription checks
+  getSubscriptionManager().stop()
+
+  // Stop bandwidth rebalancing
+  getBandwidthManager().stop()
+
+  // Don't leave decrypted cookies on disk
+  clearCookieSessionFile()
+
   // Clear queue and timers
   const queue = getDownloadQueue()
   queue.clearAllTimers()
@@ -166,6 +315,16 @@ ipcMain.handle('shell:open-path', async (_event, path: string) => {
   }
 })
 
+ipcMain.handle('dialog:select-folder', async () => {
+  if (!mainWindow) {
+    throw new Error('No main window')
+  }
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openDirectory', 'createDirectory'],
+  })
+  return result.canceled ? null : result.filePaths[0] || null
+})
+
 ipcMain.handle('shell:show-item-in-folder', async (_event, path: string) => {
   try {
     if (!path || typeof path !== 'string') {
@@ -213,31 +372,145 @@ ipcMain.handle('setup:download-dependencies', async () => {
 // =====================================
 
 // Validate download options
-function validateDownloadOptions(options: unknown): { quality: '128' | '192' | '256' | '320'; speed: number; rateLimit?: number } {
+function validateDownloadOptions(options: unknown): DownloadOptions {
   const validQualities = ['128', '192', '256' , '320'] as const
-  const defaults = { quality: '320' as const, speed: 1 }
+  const defaults = { mode: 'audio' as const, format: DEFAULT_AUDIO_FORMAT, quality: '320' as const, speed: 1 }
 
   if (!options || typeof options !== 'object') {
     return defaults
   }
 
   const opts = options as Record<string, unknown>
+  const mode = opts.mode === 'video' ? 'video' : defaults.mode
+  const format = isAudioFormat(opts.format) ? opts.format : defaults.format
   const quality = validQualities.includes(opts.quality as any)
     ? (opts.quality as '128' | '192' | '256' | '320')
     : defaults.quality
-  const speed = typeof opts.speed === 'number' && opts.speed > 0 && opts.speed <= 3
-    ? opts.speed
+  const speed = typeof opts.speed === 'number' && opts.speed >= 0.25 && opts.speed <= 4
+    ? Math.round(opts.speed * 100) / 100
     : defaults.speed
 
+  // Pitch shift in semitones, -12 to +12
+  const pitch = typeof opts.pitch === 'number' && opts.pitch >= -12 && opts.pitch <= 12
+    ? Math.round(opts.pitch * 10) / 10
+    : 0
+
+  // Source stream for audio mode, a picked format or a preference rule
+  const audioSource = mode === 'audio' ? parseAudioSource(opts.audioSource) : undefined
+
   // Validate rateLimit (KB/s, 0 = unlimited, max 100000 KB/s)
   const rateLimit = typeof opts.rateLimit === 'number' && opts.rateLimit >= 0 && opts.rateLimit <= 100000
     ? opts.rateLimit
     : undefined
 
-  return { quality, speed, rateLimit }
+  const splitChapters = opts.splitChapters === true
+
+  // Validate clip range (accepts seconds, "1:02:03" or "1h2m3s")
+  const startTime = parseClipTime(opts.startTime, 'start')
+  const endTime = parseClipTime(opts.endTime, 'end')
+  const clipError = getClipRangeError(startTime, endTime)
+  if (clipError) {
+    throw new Error(clipError)
+  }
+
+  // Unset normalization falls back to the settings default
+  const normalize = isLoudnessPreset(opts.normalize) || opts.normalize === 'off'
+    ? opts.normalize
+    : undefined
+
+  // Video-only options
+  const videoContainer = isVideoContainer(opts.videoContainer) ? opts.videoContainer : 'mp4'
+  const maxHeight = VIDEO_HEIGHTS.includes(opts.maxHeight as any)
+    ? (opts.maxHeight as number)
+    : DEFAULT_VIDEO_HEIGHT
+  const embedSubtitles = opts.embedSubtitles === true
+
+  // Caption sidecars: a language code such as "en" or "pt-BR" plus at least one format
+  const subtitleLanguage = typeof opts.subtitleLanguage === 'string' &&
+    /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(opts.subtitleLanguage)
+    ? opts.subtitleLanguage
+    : undefined
+  const subtitleFormats = Array.isArray(opts.subtitleFormats)
+    ? Array.from(new Set(opts.subtitleFormats.filter(isSubtitleFormat)))
+    : []
+  const autoSubtitles = opts.autoSubtitles !== false
+
+  // Scheduled start, a time in the past just starts right away
+  const notBefore = typeof opts.notBefore === 'number' && Number.isFinite(opts.notBefore) && opts.notBefore > Date.now()
+    ? Math.round(opts.notBefore)
+    : undefined
+
+  return {
+    mode,
+    format,
+    quality,
+    speed,
+    pitch,
+    ...(audioSource ? { audioSource } : {}),
+    rateLimit,
+    splitChapters,
+    startTime,
+    endTime,
+    normalize,
+    ...(mode === 'video' ? { videoContainer, maxHeight, embedSubtitles } : {}),
+    ...(subtitleLanguage && subtitleFormats.length > 0
+      ? { subtitleLanguage, subtitleFormats, autoSubtitles }
+      : {}),
+    ...(notBefore ? { notBefore } : {}),
+  }
+}
+
+// Apply tagging preferences from settings (the bandwidth limit is shared out by the downloader)
+function withDownloadSettings(options: DownloadOptions): DownloadOptions {
+  const settings = getDownloadSettings()
+  return {
+    ...options,
+    normalize: options.normalize ?? settings.normalization,
+    embedMetadata: settings.embedMetadata,
+    cropThumbnail: settings.cropThumbnail,
+    filenameTemplate: settings.filenameTemplate,
+    collisionPolicy: settings.collisionPolicy,
+  }
+}
+
+// Validate playlist entries coming back from the renderer's checklist
+function validatePlaylistEntries(entries: unknown): PlaylistEntry[] {
+  if (!Array.isArray(entries)) {
+    throw new Error('Invalid playlist selection')
+  }
+
+  return entries
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter((entry) =>
+      typeof entry.id === 'string' &&
+      typeof entry.url === 'string' &&
+      /^https?:\/\//.test(entry.url) &&
+      typeof entry.index === 'number' && entry.index >= 1
+    )
+    .map((entry) => ({
+      id: entry.id as string,
+      url: entry.url as string,
+      title: typeof entry.title === 'string' ? entry.title : (entry.id as string),
+      index: Math.floor(entry.index as number),
+    }))
 }
 
-ipcMain.handle('download:start', async (_event, url: string, options: unknown) => {
+// A download is not started when the same video with the same options is already in history,
+// the renderer then offers to open it or to download again with allowDuplicate
+interface StartDownloadResult {
+  id?: string
+  duplicate?: {
+    match: HistoryItem
+    action: 'warn' | 'skip'
+  }
+}
+
+ipcMain.handle('download:start', async (
+  _event,
+  url: string,
+  options: unknown,
+  allowDuplicate?: boolean
+): Promise<StartDownloadResult> => {
   if (!mainWindow) {
     throw new Error('No main window')
   }
@@ -247,22 +520,226 @@ ipcMain.handle('download:start', async (_event, url: string, options: unknown) =
     throw new Error('Invalid URL')
   }
 
-  const validatedOptions = validateDownloadOptions(options)
+  const downloadOptions = withDownloadSettings(validateDownloadOptions(options))
 
-  // Apply bandwidth limit from settings if not explicitly set
-  const settings = getDownloadSettings()
-  const downloadOptions = {
-    ...validatedOptions,
-    rateLimit: validatedOptions.rateLimit ?? settings.bandwidthLimit
+  const { duplicateHandling } = getDownloadSettings()
+  const videoId = extractVideoId(url)
+  if (duplicateHandling !== 'off' && allowDuplicate !== true && videoId) {
+    const match = findDuplicate(videoId, buildOptionsKey(downloadOptions))
+    if (match) {
+      return { duplicate: { match, action: duplicateHandling } }
+    }
   }
 
-  return await startDownload(mainWindow, url, downloadOptions)
+  return { id: await startDownload(mainWindow, url, downloadOptions) }
 })
 
 ipcMain.handle('download:cancel', async (_event, id: string) => {
   cancelDownload(id)
 })
 
+ipcMain.handle('download:pause', async (_event, id: string) => {
+  if (typeof id !== 'string') {
+    throw new Error('Invalid download id')
+  }
+  return getDownloadQueue().pause(id)
+})
+
+ipcMain.handle('download:resume', async (_event, id: string) => {
+  if (typeof id !== 'string') {
+    throw new Error('Invalid download id')
+  }
+  return getDownloadQueue().resume(id)
+})
+
+// Options are given when the user edited them, otherwise the failed ones are used again
+ipcMain.handle('download:retry', async (_event, id: unknown, options?: unknown) => {
+  if (typeof id !== 'string') {
+    throw new Error('Invalid download id')
+  }
+  return retryDownload(id, options === undefined ? undefined : withDownloadSettings(validateDownloadOptions(options)))
+})
+
+ipcMain.handle('download:resolve-collision', async (_event, id: string, decision: unknown) => {
+  if (typeof id !== 'string' || (decision !== 'skip' && decision !== 'rename' && decision !== 'overwrite')) {
+    throw new Error('Invalid collision decision')
+  }
+  return resolveCollision(id, decision)
+})
+
+ipcMain.handle('download:start-playlist', async (_event, playlist: unknown, entries: unknown, options: unknown) => {
+  if (!playlist || typeof playlist !== 'object') {
+    throw new Error('Invalid playlist')
+  }
+  const { id, title, count } = playlist as Record<string, unknown>
+  if (typeof id !== 'string' || typeof title !== 'string') {
+    throw new Error('Invalid playlist')
+  }
+
+  const settings = getDownloadSettings()
+  const downloadOptions = {
+    ...withDownloadSettings(validateDownloadOptions(options)),
+    filenameTemplate: settings.playlistFilenameTemplate,
+  }
+
+  let selected = validatePlaylistEntries(entries)
+  if (settings.duplicateHandling === 'skip') {
+    const optionsKey = buildOptionsKey(downloadOptions)
+    selected = selected.filter((entry) => !findDuplicate(entry.id, optionsKey))
+  }
+  if (selected.length === 0) {
+    throw new Error('No playlist entries to download')
+  }
+
+  return await startPlaylistDownload(
+    { id, title, count: typeof count === 'number' ? count : selected.length },
+    selected,
+    downloadOptions
+  )
+})
+
+ipcMain.handle('download:cancel-group', async (_event, groupId: string) => {
+  if (typeof groupId !== 'string') return []
+  return cancelDownloadGroup(groupId)
+})
+
+// =====================================
+// Playlist IPC Handlers
+// =====================================
+
+ipcMain.handle('playlist:expand', async (_event, url: string) => {
+  if (typeof url !== 'string' || !isPlaylistURL(url)) {
+    throw new Error('Not a playlist URL')
+  }
+  const playlist = await expandPlaylist(url)
+
+  // Flag entries that were downloaded before so the checklist can leave them out
+  const downloaded = getDownloadedVideoIds()
+  return {
+    ...playlist,
+    entries: playlist.entries.map((entry) => ({ ...entry, downloaded: downloaded.has(entry.id) })),
+  }
+})
+
+// =====================================
+// Video Info IPC Handlers
+// =====================================
+
+// Preview lookup in progress per renderer, replaced when the user enters another URL
+const previewLookups = new Map<number, AbortController>()
+
+ipcMain.handle('video:get-info', async (event, url: unknown) => {
+  if (typeof url !== 'string' || !extractVideoId(url)) {
+    throw new Error('Not a video URL')
+  }
+
+  const senderId = event.sender.id
+  previewLookups.get(senderId)?.abort()
+  const lookup = new AbortController()
+  previewLookups.set(senderId, lookup)
+  try {
+    return await getVideoInfo(url, lookup.signal)
+  } finally {
+    if (previewLookups.get(senderId) === lookup) {
+      previewLookups.delete(senderId)
+    }
+  }
+})
+
+// =====================================
+// Cookie IPC Handlers
+// =====================================
+
+ipcMain.handle('cookies:get-status', async () => {
+  return getCookieStatus()
+})
+
+// Returns null when the file dialog was cancelled
+ipcMain.handle('cookies:import-file', async () => {
+  if (!mainWindow) {
+    throw new Error('No main window')
+  }
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: [{ name: 'cookies.txt', extensions: ['txt'] }, { name: 'All Files', extensions: ['*'] }],
+  })
+  if (result.canceled || !result.filePaths[0]) return null
+  return importCookieFile(result.filePaths[0])
+})
+
+ipcMain.handle('cookies:import-browser', async (_event, browser: unknown, profileDir?: unknown) => {
+  if (!isCookieBrowser(browser)) {
+    throw new Error('Unsupported browser')
+  }
+  if (profileDir !== undefined && (typeof profileDir !== 'string' || !isAbsolute(profileDir))) {
+    throw new Error('Invalid profile folder')
+  }
+  return importBrowserCookies(browser, profileDir)
+})
+
+ipcMain.handle('cookies:test', async () => {
+  return testCookies()
+})
+
+ipcMain.handle('cookies:remove', async () => {
+  removeCookies()
+})
+
+// =====================================
+// Subscription IPC Handlers
+// =====================================
+
+// Validate a subscription preset, reusing the download option rules
+function validateSubscriptionPreset(preset: unknown): SubscriptionPreset {
+  const { mode, format, quality, speed } = validateDownloadOptions(preset)
+  const outputDir = preset && typeof preset === 'object'
+    ? (preset as Record<string, unknown>).outputDir
+    : undefined
+
+  return {
+    mode,
+    format,
+    quality,
+    speed,
+    ...(typeof outputDir === 'string' && isAbsolute(outputDir) ? { outputDir } : {}),
+  }
+}
+
+ipcMain.handle('subscriptions:get', async () => {
+  return getSubscriptionManager().getSubscriptions()
+})
+
+ipcMain.handle('subscriptions:add', async (_event, url: string, preset: unknown, includeExisting: unknown) => {
+  if (typeof url !== 'string' || !url.trim()) {
+    throw new Error('Invalid URL')
+  }
+  return await getSubscriptionManager().add(url, validateSubscriptionPreset(preset), includeExisting === true)
+})
+
+ipcMain.handle('subscriptions:update', async (_event, id: string, changes: unknown) => {
+  if (typeof id !== 'string' || !changes || typeof changes !== 'object') {
+    throw new Error('Invalid subscription update')
+  }
+  const { preset, enabled } = changes as Record<string, unknown>
+  return getSubscriptionManager().update(id, {
+    ...(preset !== undefined ? { preset: validateSubscriptionPreset(preset) } : {}),
+    ...(typeof enabled === 'boolean' ? { enabled } : {}),
+  })
+})
+
+ipcMain.handle('subscriptions:remove', async (_event, id: string) => {
+  return getSubscriptionManager().remove(id)
+})
+
+ipcMain.handle('subscriptions:check', async (_event, id?: string) => {
+  const subscriptions = getSubscriptionManager()
+  if (typeof id === 'string') {
+    return await subscriptions.check(id)
+  }
+  await subscriptions.checkAll()
+  return null
+})
+
 // =====================================
 // History IPC Handlers
 // =====================================
@@ -292,9 +769,18 @@ ipcMain.handle('settings:update-download', async (_event, settings: Partial<Down
     maxRetries: updated.autoRetry ? updated.maxRetries : 0,
     downloadTimeout: updated.downloadTimeout * 1000,
   })
+  queue.setTimeWindow(updated.downloadWindow)
+  getBandwidthManager().configure(updated.bandwidthLimit, updated.bandwidthProfiles)
   return updated
 })
 
+ipcMain.handle('settings:preview-filename', async (_event, template: unknown) => {
+  if (typeof template !== 'string') {
+    return { error: 'Template must be text' }
+  }
+  return previewFilename(template)
+})
+
 // =====================================
 // Queue IPC Handlers
 // =====================================
@@ -308,3 +794,24 @@ ipcMain.handle('queue:cancel-all', async () => {
   const queue = getDownloadQueue()
   queue.cancelAll()
 })
+
+ipcMain.handle('queue:reorder', async (_event, ids: unknown) => {
+  if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+    throw new Error('Invalid queue order')
+  }
+  return getDownloadQueue().reorder(ids)
+})
+
+ipcMain.handle('queue:move', async (_event, id: unknown, to: unknown) => {
+  if (typeof id !== 'string' || (to !== 'top' && to !== 'bottom')) {
+    throw new Error('Invalid queue move')
+  }
+  return getDownloadQueue().move(id, to)
+})
+
+ipcMain.handle('queue:download-next', async (_event, id: unknown) => {
+  if (typeof id !== 'string') {
+    throw new Error('Invalid download id')
+  }
+  return getDownloadQueue().downloadNext(id)
+})
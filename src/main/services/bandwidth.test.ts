@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { BandwidthManager } from './bandwidth'
+import { createFakeClock } from '../../test/fakeClock'
+
+describe('BandwidthManager', () => {
+  it('never hands out more than the budget in total', () => {
+    const budget = 300
+    for (let n = 1; n <= 40; n++) {
+      const clock = createFakeClock()
+      const manager = new BandwidthManager(clock)
+      manager.configure(budget, [])
+      const rates = new Map<string, number>()
+
+      for (let i = 0; i < n; i++) {
+        const id = `d${i}`
+        rates.set(id, manager.register(id, undefined, (rate) => rates.set(id, rate)))
+        const total = [...rates.values()].reduce((sum, rate) => sum + rate, 0)
+        expect(total).toBeLessThanOrEqual(budget)
+        expect([...rates.values()].every((rate) => rate > 0)).toBe(true)
+      }
+      manager.stop()
+    }
+  })
+
+  it('lowers running transfers before the new one starts', () => {
+    const manager = new BandwidthManager(createFakeClock())
+    manager.configure(1000, [])
+    const applied: string[] = []
+
+    manager.register('first', undefined, (rate) => applied.push(`first:${rate}`))
+    expect(applied).toEqual([])
+    expect(manager.register('second', undefined, () => {})).toBe(500)
+    expect(applied).toEqual(['first:500'])
+    manager.stop()
+  })
+
+  it('raises the remaining shares together once a transfer ends', () => {
+    const clock = createFakeClock()
+    const manager = new BandwidthManager(clock)
+    manager.configure(900, [])
+    const rates = new Map<string, number>()
+    for (const id of ['a', 'b', 'c']) {
+      rates.set(id, manager.register(id, undefined, (rate) => rates.set(id, rate)))
+    }
+
+    manager.unregister('c')
+    rates.delete('c')
+    expect(rates.get('a')).toBe(300)
+
+    clock.advance(5000)
+    expect(rates.get('a')).toBe(450)
+    expect(rates.get('b')).toBe(450)
+    manager.stop()
+  })
+
+  it('keeps a per-download cap below its share', () => {
+    const manager = new BandwidthManager(createFakeClock())
+    manager.configure(1000, [])
+    expect(manager.register('capped', 200, () => {})).toBe(200)
+    expect(manager.register('other', undefined, () => {})).toBe(500)
+    manager.stop()
+  })
+})
@@ -0,0 +1,146 @@
+import { Clock, TimeWindow, systemClock, isInWindow, isTimeWindow, nextOccurrence } from './schedule'
+
+// A different total limit during part of the day, e.g. 500 KB/s from 09:00 to 17:00
+export interface BandwidthProfile extends TimeWindow {
+  limit: number // KB/s, 0 = unlimited
+}
+
+export const MAX_BANDWIDTH_PROFILES = 4
+
+// Lowest share handed out, 0 would mean unlimited to yt-dlp
+const MIN_SHARE_KBPS = 1
+
+// Shares are applied by restarting yt-dlp, so raised shares (several downloads finishing)
+// are applied together. Lowered ones are applied at once to stay within the budget.
+const REBALANCE_DELAY_MS = 5000
+
+export function isBandwidthProfile(value: unknown): value is BandwidthProfile {
+  return isTimeWindow(value) &&
+    typeof (value as BandwidthProfile).limit === 'number' &&
+    Number.isFinite((value as BandwidthProfile).limit) &&
+    (value as BandwidthProfile).limit >= 0
+}
+
+// Total limit at a given time: the first matching profile, otherwise the base limit
+export function getBandwidthBudget(time: number, baseLimit: number, profiles: BandwidthProfile[]): number {
+  const profile = profiles.find((p) => isInWindow(time, p))
+  return profile ? profile.limit : baseLimit
+}
+
+interface Transfer {
+  cap: number // per-download limit from its options, 0 = none
+  rate: number
+  apply: (rate: number) => void
+}
+
+// Splits one bandwidth budget evenly across the downloads that are transferring.
+// yt-dlp can't change --limit-rate while running, so a download whose share changes
+// is handed the new rate to restart with (it continues from its partial files).
+export class BandwidthManager {
+  private baseLimit: number = 0
+  private profiles: BandwidthProfile[] = []
+  private transfers: Map<string, Transfer> = new Map()
+  private clock: Clock
+  private rebalanceTimer: unknown = null
+  private profileTimer: unknown = null
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock
+  }
+
+  configure(baseLimit: number, profiles: BandwidthProfile[]): void {
+    this.baseLimit = baseLimit
+    this.profiles = profiles
+    this.scheduleProfileChange()
+    this.rebalance(true)
+    this.scheduleRebalance()
+  }
+
+  getBudget(): number {
+    return getBandwidthBudget(this.clock.now(), this.baseLimit, this.profiles)
+  }
+
+  // Start tracking a transfer, returns the rate (KB/s, 0 = unlimited) to start it with
+  register(id: string, cap: number | undefined, apply: (rate: number) => void): number {
+    const transfer: Transfer = { cap: cap && cap > 0 ? cap : 0, rate: 0, apply }
+    this.transfers.set(id, transfer)
+    transfer.rate = this.getRate(transfer)
+
+    // The others give up part of their share before this one starts
+    this.rebalance(true)
+    return transfer.rate
+  }
+
+  unregister(id: string): void {
+    if (this.transfers.delete(id)) {
+      this.scheduleRebalance()
+    }
+  }
+
+  stop(): void {
+    for (const timer of [this.rebalanceTimer, this.profileTimer]) {
+      if (timer !== null) this.clock.clearTimeout(timer)
+    }
+    this.rebalanceTimer = null
+    this.profileTimer = null
+    this.transfers.clear()
+  }
+
+  private getRate(transfer: Transfer): number {
+    const budget = this.getBudget()
+    const share = budget > 0 ? Math.max(MIN_SHARE_KBPS, Math.floor(budget / this.transfers.size)) : 0
+    if (share === 0) return transfer.cap
+    return transfer.cap > 0 ? Math.min(share, transfer.cap) : share
+  }
+
+  // With lowerOnly, only shares that shrink are applied (0 is unlimited, above any rate)
+  private rebalance(lowerOnly: boolean = false): void {
+    for (const transfer of this.transfers.values()) {
+      const rate = this.getRate(transfer)
+      const isLower = rate !== 0 && (transfer.rate === 0 || rate < transfer.rate)
+      if (rate !== transfer.rate && (!lowerOnly || isLower)) {
+        transfer.rate = rate
+        transfer.apply(rate)
+      }
+    }
+  }
+
+  private scheduleRebalance(): void {
+    if (this.rebalanceTimer !== null) return
+
+    this.rebalanceTimer = this.clock.setTimeout(() => {
+      this.rebalanceTimer = null
+      this.rebalance()
+    }, REBALANCE_DELAY_MS)
+  }
+
+  // Re-split when the next profile starts or ends
+  private scheduleProfileChange(): void {
+    if (this.profileTimer !== null) {
+      this.clock.clearTimeout(this.profileTimer)
+      this.profileTimer = null
+    }
+
+    const now = this.clock.now()
+    const boundaries = this.profiles
+      .filter((p) => p.start !== p.end)
+      .flatMap((p) => [nextOccurrence(now, p.start), nextOccurrence(now, p.end)])
+    if (boundaries.length === 0) return
+
+    this.profileTimer = this.clock.setTimeout(() => {
+      this.profileTimer = null
+      this.rebalance()
+      this.scheduleProfileChange()
+    }, Math.min(...boundaries) - now)
+  }
+}
+
+// Singleton instance
+let bandwidthInstance: BandwidthManager | null = null
+
+export function getBandwidthManager(): BandwidthManager {
+  if (!bandwidthInstance) {
+    bandwidthInstance = new BandwidthManager()
+  }
+  return bandwidthInstance
+}
@@ -0,0 +1,19 @@
+// yt-dlp --download-sections value, e.g. "*40-120" or "*40-inf"
+export function toDownloadSection(startTime?: number, endTime?: number): string {
+  return `*${startTime ?? 0}-${endTime ?? 'inf'}`
+}
+
+// Filename-safe label for a clip, e.g. "1h02m03s-1h03m00s"
+export function formatClipLabel(startTime?: number, endTime?: number): string {
+  const label = (seconds: number): string => {
+    const total = Math.floor(seconds)
+    const h = Math.floor(total / 3600)
+    const m = Math.floor((total % 3600) / 60)
+    const s = total % 60
+    const pad = (n: number) => String(n).padStart(2, '0')
+    if (h > 0) return `${h}h${pad(m)}m${pad(s)}s`
+    if (m > 0) return `${m}m${pad(s)}s`
+    return `${s}s`
+  }
+  return `${label(startTime ?? 0)}-${endTime !== undefined ? label(endTime) : 'end'}`
+}
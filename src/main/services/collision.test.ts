@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, readFile, readdir, rm, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { numberedPath, placeFile, placeDirectory } from './collision'
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'tuberun-collision-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+// A finished download waiting to be moved into place
+async function download(content: string): Promise<string> {
+  const source = join(dir, `download-${content}.tmp`)
+  await writeFile(source, content)
+  return source
+}
+
+describe('numberedPath', () => {
+  it('numbers before the extension, folders have none', () => {
+    expect(numberedPath('/music/Song.mp3', 2)).toBe('/music/Song (2).mp3')
+    expect(numberedPath('/music/Album v1.0', 3, true)).toBe('/music/Album v1.0 (3)')
+  })
+})
+
+describe('placeFile', () => {
+  it('moves the file to a free name', async () => {
+    const target = join(dir, 'Song.mp3')
+    expect(await placeFile(await download('new'), target, 'rename')).toEqual({ path: target, outcome: undefined })
+    expect(await readFile(target, 'utf-8')).toBe('new')
+  })
+
+  it('numbers the file when the name is taken', async () => {
+    const target = join(dir, 'Song.mp3')
+    await writeFile(target, 'old')
+    await writeFile(join(dir, 'Song (2).mp3'), 'older')
+
+    const placement = await placeFile(await download('new'), target, 'rename')
+    expect(placement).toEqual({ path: join(dir, 'Song (3).mp3'), outcome: 'renamed' })
+    expect(await readFile(target, 'utf-8')).toBe('old')
+    expect(await readFile(placement.path, 'utf-8')).toBe('new')
+  })
+
+  it('keeps the existing file and drops the download when skipping', async () => {
+    const target = join(dir, 'Song.mp3')
+    await writeFile(target, 'old')
+    const source = await download('new')
+
+    expect(await placeFile(source, target, 'skip')).toEqual({ path: target, outcome: 'skipped' })
+    expect(await readFile(target, 'utf-8')).toBe('old')
+    expect(existsSync(source)).toBe(false)
+  })
+
+  it('replaces the existing file when overwriting', async () => {
+    const target = join(dir, 'Song.mp3')
+    await writeFile(target, 'old')
+
+    expect(await placeFile(await download('new'), target, 'overwrite')).toEqual({ path: target, outcome: 'overwritten' })
+    expect(await readFile(target, 'utf-8')).toBe('new')
+  })
+
+  it('gives parallel downloads of the same name different files', async () => {
+    const target = join(dir, 'Song.mp3')
+    const placements = await Promise.all([
+      placeFile(await download('a'), target, 'rename'),
+      placeFile(await download('b'), target, 'rename'),
+    ])
+    expect(new Set(placements.map((p) => p.path)).size).toBe(2)
+  })
+})
+
+describe('placeDirectory', () => {
+  it('creates a free folder', async () => {
+    const target = join(dir, 'Album')
+    expect(await placeDirectory(target, 'rename')).toEqual({ path: target, outcome: undefined })
+    expect(existsSync(target)).toBe(true)
+  })
+
+  it('numbers the folder when the name is taken', async () => {
+    const target = join(dir, 'Album')
+    await mkdir(target)
+    expect(await placeDirectory(target, 'rename')).toEqual({ path: join(dir, 'Album (2)'), outcome: 'renamed' })
+  })
+
+  it('leaves the existing folder alone when skipping', async () => {
+    const target = join(dir, 'Album')
+    await mkdir(target)
+    await writeFile(join(target, '01 Intro.mp3'), 'old')
+
+    expect(await placeDirectory(target, 'skip')).toEqual({ path: target, outcome: 'skipped' })
+    expect(await readdir(target)).toEqual(['01 Intro.mp3'])
+  })
+
+  it('empties the existing folder when overwriting, so no tracks of an earlier split remain', async () => {
+    const target = join(dir, 'Album')
+    await mkdir(target)
+    await writeFile(join(target, '01 Intro.mp3'), 'old')
+    await writeFile(join(target, '02 Outro.mp3'), 'old')
+
+    expect(await placeDirectory(target, 'overwrite')).toEqual({ path: target, outcome: 'overwritten' })
+    expect(await readdir(target)).toEqual([])
+  })
+})
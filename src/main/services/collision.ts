@@ -0,0 +1,98 @@
+import { existsSync } from 'fs'
+import { open, rename, unlink, mkdir, rm } from 'fs/promises'
+import { extname } from 'path'
+
+// What to do when the output file already exists
+export type CollisionPolicy = 'skip' | 'rename' | 'overwrite' | 'ask'
+
+// The policy once a user has answered "ask"
+export type CollisionDecision = Exclude<CollisionPolicy, 'ask'>
+
+// What happened to an existing file, recorded in progress and history
+export type CollisionOutcome = 'skipped' | 'renamed' | 'overwritten'
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['skip', 'rename', 'overwrite', 'ask']
+
+export const DEFAULT_COLLISION_POLICY: CollisionPolicy = 'rename'
+
+// Give up numbering after "title (999)"
+const MAX_NUMBERED = 999
+
+export function isCollisionPolicy(value: unknown): value is CollisionPolicy {
+  return typeof value === 'string' && COLLISION_POLICIES.includes(value as CollisionPolicy)
+}
+
+// "title.mp3" -> "title (2).mp3", folders have no extension
+export function numberedPath(path: string, n: number, isDirectory: boolean = false): string {
+  const extension = isDirectory ? '' : extname(path)
+  return `${path.slice(0, path.length - extension.length)} (${n})${extension}`
+}
+
+interface Placement {
+  path: string
+  outcome?: CollisionOutcome
+}
+
+// Move a finished file to its final name. Creating the name with O_EXCL first makes the
+// existence check and the claim one step, so parallel downloads can't pick the same name.
+export async function placeFile(source: string, target: string, decision: CollisionDecision): Promise<Placement> {
+  if (decision === 'overwrite') {
+    // rename replaces an existing file in one step on every platform
+    const existed = existsSync(target)
+    await rename(source, target)
+    return { path: target, outcome: existed ? 'overwritten' : undefined }
+  }
+
+  for (let n = 1; n <= MAX_NUMBERED; n++) {
+    const candidate = n === 1 ? target : numberedPath(target, n)
+    try {
+      await claim(candidate)
+    } catch (err: any) {
+      if (err.code !== 'EEXIST') throw err
+      if (decision === 'skip') {
+        await unlink(source)
+        return { path: target, outcome: 'skipped' }
+      }
+      continue
+    }
+
+    try {
+      await rename(source, candidate)
+    } catch (err) {
+      // Release the claimed name
+      await unlink(candidate).catch(() => {})
+      throw err
+    }
+    return { path: candidate, outcome: n > 1 ? 'renamed' : undefined }
+  }
+
+  throw new Error('Too many files with the same name')
+}
+
+// Create the folder for chapter tracks under the same rules; mkdir fails atomically when it exists
+export async function placeDirectory(target: string, decision: CollisionDecision): Promise<Placement> {
+  for (let n = 1; n <= MAX_NUMBERED; n++) {
+    const candidate = n === 1 ? target : numberedPath(target, n, true)
+    try {
+      await mkdir(candidate)
+      return { path: candidate, outcome: n > 1 ? 'renamed' : undefined }
+    } catch (err: any) {
+      if (err.code !== 'EEXIST') throw err
+      if (decision === 'skip') return { path: target, outcome: 'skipped' }
+      // Emptied first, tracks of an earlier split with other chapters would stay otherwise
+      if (decision === 'overwrite') {
+        await rm(target, { recursive: true, force: true })
+        await mkdir(target)
+        return { path: target, outcome: 'overwritten' }
+      }
+    }
+  }
+
+  throw new Error('Too many folders with the same name')
+}
+
+// Create an empty file, failing if the name is taken
+async function claim(path: string): Promise<void> {
+  const handle = await open(path, 'wx')
+  await handle.close()
+}
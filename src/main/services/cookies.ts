@@ -0,0 +1,307 @@
+import { app, safeStorage } from 'electron'
+import Store from 'electron-store'
+import { spawn } from 'child_process'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { rmSync, writeFileSync } from 'fs'
+import { getYtdlpPath, getTuberunDir } from './setup'
+
+// Platform detection
+const isWindows = process.platform === 'win32'
+const PATH_SEPARATOR = isWindows ? ';' : ':'
+
+// Decrypted copy handed to yt-dlp with --cookies while the app runs, removed on quit.
+// yt-dlp writes refreshed cookies back into it, those are dropped with it.
+function getSessionCookieFile(): string {
+  return join(app.getPath('userData'), 'cookies.session.txt')
+}
+
+// yt-dlp's own test video, public and short
+const TEST_VIDEO_URL = 'https://www.youtube.com/watch?v=BaW_jenozKc'
+
+// Reading a browser profile can wait on the OS keyring
+const YTDLP_TIMEOUT_MS = 60000
+
+// Only cookies of these domains are kept, a browser profile holds those of every site
+const YOUTUBE_DOMAIN = /(^|\.)(youtube\.com|google\.com)$/i
+
+// Present once signed in to YouTube
+const LOGIN_COOKIES = ['LOGIN_INFO', 'SAPISID', '__Secure-3PAPISID']
+
+// Browsers yt-dlp can read cookies from (--cookies-from-browser)
+export const COOKIE_BROWSERS = ['brave', 'chrome', 'chromium', 'edge', 'firefox', 'opera', 'safari', 'vivaldi'] as const
+
+export type CookieBrowser = (typeof COOKIE_BROWSERS)[number]
+
+export function isCookieBrowser(value: unknown): value is CookieBrowser {
+  return typeof value === 'string' && (COOKIE_BROWSERS as readonly string[]).includes(value)
+}
+
+export interface CookieStatus {
+  configured: boolean
+  source?: string // file name, or browser and profile the cookies came from
+  addedAt?: number
+  cookieCount?: number
+  signedIn?: boolean // has YouTube's login cookies
+}
+
+export interface CookieTestResult {
+  ok: boolean
+  cookieCount: number
+  expiredCount: number
+  signedIn: boolean
+  error?: string
+}
+
+interface SavedCookies {
+  data: string // cookies.txt encrypted with safeStorage, base64
+  source: string
+  addedAt: number
+  cookieCount: number
+  signedIn: boolean
+}
+
+interface CookieSchema {
+  cookies: SavedCookies | null
+}
+
+interface ParsedCookie {
+  line: string
+  domain: string
+  expires: number // epoch seconds, 0 for a session cookie
+  name: string
+}
+
+// Created on first use, the app paths aren't available when loaded outside Electron
+let storeInstance: Store<CookieSchema> | null = null
+
+function getStore(): Store<CookieSchema> {
+  if (!storeInstance) {
+    storeInstance = new Store<CookieSchema>({
+      name: 'tuberun-cookies',
+      defaults: {
+        cookies: null,
+      },
+    })
+  }
+  return storeInstance
+}
+
+let sessionFileReady = false
+
+// Cookie lines of a Netscape cookies.txt, "#HttpOnly_" marks a cookie rather than a comment
+function parseCookieFile(text: string): ParsedCookie[] {
+  const cookies: ParsedCookie[] = []
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || (line.startsWith('#') && !line.startsWith('#HttpOnly_'))) continue
+
+    const fields = line.split('\t')
+    if (fields.length !== 7) continue
+    const expires = Number(fields[4])
+    if (!Number.isFinite(expires)) continue
+
+    cookies.push({
+      line,
+      domain: fields[0].replace(/^#HttpOnly_/, '').replace(/^\./, ''),
+      expires,
+      name: fields[5],
+    })
+  }
+  return cookies
+}
+
+function hasLoginCookies(cookies: ParsedCookie[]): boolean {
+  return cookies.some((cookie) => LOGIN_COOKIES.includes(cookie.name))
+}
+
+function runYtdlp(args: string[]): Promise<{ code: number | null; errorOutput: string }> {
+  return new Promise((resolve, reject) => {
+    const ytdlpProcess = spawn(getYtdlpPath(), args, {
+      env: {
+        ...process.env,
+        PATH: `${getTuberunDir()}${PATH_SEPARATOR}${process.env.PATH}`,
+      },
+    })
+
+    let errorOutput = ''
+    let timedOut = false
+
+    const timeout = setTimeout(() => {
+      timedOut = true
+      ytdlpProcess.kill(isWindows ? 'SIGKILL' : 'SIGTERM')
+    }, YTDLP_TIMEOUT_MS)
+
+    // Output isn't needed, but a full pipe would stall the process
+    ytdlpProcess.stdout.resume()
+
+    ytdlpProcess.stderr.on('data', (data) => {
+      // Cap error string to prevent memory issues
+      if (errorOutput.length < 10000) {
+        errorOutput += data.toString()
+      }
+    })
+
+    ytdlpProcess.on('close', (code) => {
+      clearTimeout(timeout)
+      if (timedOut) {
+        reject(new Error('yt-dlp timed out. Please try again.'))
+        return
+      }
+      resolve({ code, errorOutput })
+    })
+
+    ytdlpProcess.on('error', (err) => {
+      clearTimeout(timeout)
+      reject(new Error(`Failed to start yt-dlp: ${err.message}`))
+    })
+  })
+}
+
+// Last "ERROR:" line of yt-dlp's output, or its last line
+function summarizeError(errorOutput: string): string {
+  const lines = errorOutput.trim().split(/\r?\n/)
+  return lines.filter((line) => line.startsWith('ERROR:')).pop() ?? lines.pop() ?? 'yt-dlp failed'
+}
+
+// Encrypt and keep the YouTube cookies of a cookies.txt, replacing any saved before
+function saveCookies(text: string, source: string): CookieStatus {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('Secure storage is not available on this system, cookies were not saved')
+  }
+
+  const cookies = parseCookieFile(text).filter((cookie) => YOUTUBE_DOMAIN.test(cookie.domain))
+  if (cookies.length === 0) {
+    throw new Error('No YouTube cookies found')
+  }
+
+  const data = ['# Netscape HTTP Cookie File', ...cookies.map((cookie) => cookie.line), ''].join('\n')
+  getStore().set('cookies', {
+    data: safeStorage.encryptString(data).toString('base64'),
+    source,
+    addedAt: Date.now(),
+    cookieCount: cookies.length,
+    signedIn: hasLoginCookies(cookies),
+  })
+  clearCookieSessionFile()
+  return getCookieStatus()
+}
+
+function readSavedCookies(): string | null {
+  const saved = getStore().get('cookies')
+  if (!saved) return null
+  return safeStorage.decryptString(Buffer.from(saved.data, 'base64'))
+}
+
+export function getCookieStatus(): CookieStatus {
+  const saved = getStore().get('cookies')
+  if (!saved) return { configured: false }
+  return {
+    configured: true,
+    source: saved.source,
+    addedAt: saved.addedAt,
+    cookieCount: saved.cookieCount,
+    signedIn: saved.signedIn,
+  }
+}
+
+export async function importCookieFile(path: string): Promise<CookieStatus> {
+  const text = await readFile(path, 'utf-8')
+  if (parseCookieFile(text).length === 0) {
+    throw new Error('Not a Netscape cookies.txt file')
+  }
+  return saveCookies(text, path.split(/[\\/]/).pop() || path)
+}
+
+// Let yt-dlp read the browser's cookie database (the browser's default profile unless a
+// profile folder is given) and dump it as cookies.txt
+export async function importBrowserCookies(browser: CookieBrowser, profileDir?: string): Promise<CookieStatus> {
+  const dumpDir = await mkdtemp(join(tmpdir(), 'tuberun-cookies-'))
+  const dumpFile = join(dumpDir, 'cookies.txt')
+  try {
+    const { code, errorOutput } = await runYtdlp([
+      '--cookies-from-browser', profileDir ? `${browser}:${profileDir}` : browser,
+      '--cookies', dumpFile,
+      '--skip-download',
+      '--no-playlist',
+      '--quiet',
+      TEST_VIDEO_URL,
+    ])
+
+    let text: string
+    try {
+      text = await readFile(dumpFile, 'utf-8')
+    } catch {
+      throw new Error(code !== 0 ? summarizeError(errorOutput) : 'No cookies were read from the browser')
+    }
+
+    const source = profileDir ? `${browser} (${profileDir.split(/[\\/]/).pop() || profileDir})` : browser
+    return saveCookies(text, source)
+  } finally {
+    await rm(dumpDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+// Check the saved cookies, then fetch a video with them to see yt-dlp accepts them
+export async function testCookies(): Promise<CookieTestResult> {
+  const text = readSavedCookies()
+  if (!text) {
+    throw new Error('No cookies saved')
+  }
+
+  const cookies = parseCookieFile(text)
+  const now = Date.now() / 1000
+  const result = {
+    cookieCount: cookies.length,
+    expiredCount: cookies.filter((cookie) => cookie.expires > 0 && cookie.expires < now).length,
+    signedIn: hasLoginCookies(cookies),
+  }
+  if (result.expiredCount === result.cookieCount) {
+    return { ok: false, ...result, error: 'All saved cookies have expired' }
+  }
+
+  const { code, errorOutput } = await runYtdlp([
+    ...getCookieArgs(),
+    '--simulate',
+    '--no-playlist',
+    '--quiet',
+    TEST_VIDEO_URL,
+  ])
+  if (code !== 0) {
+    return { ok: false, ...result, error: summarizeError(errorOutput) }
+  }
+  return { ok: true, ...result }
+}
+
+export function removeCookies(): void {
+  getStore().set('cookies', null)
+  clearCookieSessionFile()
+}
+
+// Arguments passing the saved cookies to a yt-dlp call, none when there are none or they
+// can't be decrypted (e.g. the OS keyring changed)
+export function getCookieArgs(): string[] {
+  if (!getStore().get('cookies')) return []
+
+  if (!sessionFileReady) {
+    try {
+      writeFileSync(getSessionCookieFile(), readSavedCookies() ?? '', { mode: 0o600 })
+      sessionFileReady = true
+    } catch (error: any) {
+      console.error('Failed to prepare cookies:', error.message)
+      return []
+    }
+  }
+  return ['--cookies', getSessionCookieFile()]
+}
+
+// Remove the decrypted copy, also left over from a crash when called at startup
+export function clearCookieSessionFile(): void {
+  sessionFileReady = false
+  try {
+    rmSync(getSessionCookieFile(), { force: true })
+  } catch (error: any) {
+    console.error('Failed to remove cookies file:', error.message)
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { DownloadQueueManager, DownloadOptions, EnhancedDownloadProgress } from './downloadQueue'
+import { createFakeClock, FakeClock } from '../../test/fakeClock'
+
+const options: DownloadOptions = { mode: 'audio', format: 'mp3', quality: '192', speed: 1 }
+
+// Local time, the download window is in the user's time zone
+const at = (day: number, hours: number, minutes: number = 0) => new Date(2026, 0, day, hours, minutes).getTime()
+
+describe('DownloadQueueManager scheduling', () => {
+  let clock: FakeClock
+  let queue: DownloadQueueManager
+  let started: string[]
+  let finish: Map<string, () => void>
+  let progress: EnhancedDownloadProgress[]
+
+  const lastProgress = (id: string) => progress.filter((p) => p.id === id).pop()
+
+  beforeEach(() => {
+    clock = createFakeClock(at(15, 12))
+    queue = new DownloadQueueManager({ maxConcurrent: 1 }, clock)
+    started = []
+    finish = new Map()
+    progress = []
+    queue.on('progress', (p: EnhancedDownloadProgress) => progress.push(p))
+    queue.setDownloadFunction((id) => new Promise<void>((resolve) => {
+      started.push(id)
+      finish.set(id, resolve)
+    }))
+  })
+
+  // Lets the queue handle a finished download's promise
+  const complete = async (id: string) => {
+    finish.get(id)!()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  it('holds a download until its notBefore time', () => {
+    const notBefore = at(15, 14)
+    queue.add('later', 'https://youtu.be/aaaaaaaaaaa', { ...options, notBefore })
+
+    expect(started).toEqual([])
+    expect(lastProgress('later')).toMatchObject({ status: 'scheduled', startsAt: notBefore })
+
+    clock.setTime(notBefore - 1)
+    expect(started).toEqual([])
+    clock.setTime(notBefore)
+    expect(started).toEqual(['later'])
+    queue.clearAllTimers()
+  })
+
+  it('wakes up when a window spanning midnight opens', () => {
+    clock.setTime(at(15, 20))
+    queue.setTimeWindow({ start: 22 * 60, end: 6 * 60 })
+    queue.add('night', 'https://youtu.be/aaaaaaaaaaa', options)
+
+    expect(lastProgress('night')).toMatchObject({ status: 'scheduled', startsAt: at(15, 22) })
+    clock.setTime(at(15, 21, 59))
+    expect(started).toEqual([])
+    clock.setTime(at(15, 22))
+    expect(started).toEqual(['night'])
+    queue.clearAllTimers()
+  })
+
+  it('waits past midnight for a window that opens the next day', () => {
+    clock.setTime(at(15, 23, 30))
+    queue.setTimeWindow({ start: 60, end: 7 * 60 })
+    queue.add('early', 'https://youtu.be/aaaaaaaaaaa', options)
+
+    expect(lastProgress('early')).toMatchObject({ status: 'scheduled', startsAt: at(16, 1) })
+    clock.setTime(at(16, 0, 59))
+    expect(started).toEqual([])
+    clock.setTime(at(16, 1))
+    expect(started).toEqual(['early'])
+    queue.clearAllTimers()
+  })
+
+  it('holds downloads added after the window closed until it opens again', async () => {
+    clock.setTime(at(15, 5))
+    queue.setTimeWindow({ start: 22 * 60, end: 6 * 60 })
+    queue.add('first', 'https://youtu.be/aaaaaaaaaaa', options)
+    queue.add('second', 'https://youtu.be/bbbbbbbbbbb', options)
+    expect(started).toEqual(['first'])
+
+    // Running downloads finish, the next one waits for the evening
+    clock.setTime(at(15, 6, 30))
+    await complete('first')
+    expect(started).toEqual(['first'])
+    expect(lastProgress('second')).toMatchObject({ status: 'scheduled', startsAt: at(15, 22) })
+
+    clock.setTime(at(15, 22))
+    expect(started).toEqual(['first', 'second'])
+    queue.clearAllTimers()
+  })
+
+  it('starts a resumed download in its original place', async () => {
+    queue.add('a', 'https://youtu.be/aaaaaaaaaaa', options)
+    clock.advance(1)
+    queue.add('b', 'https://youtu.be/bbbbbbbbbbb', options)
+    clock.advance(1)
+    queue.add('c', 'https://youtu.be/ccccccccccc', options)
+    expect(started).toEqual(['a'])
+
+    // Pausing the running download frees its slot for the next one
+    expect(queue.pause('a')).toBe(true)
+    expect(started).toEqual(['a', 'b'])
+
+    // Back in line ahead of the download added after it
+    expect(queue.resume('a')).toBe(true)
+    await complete('b')
+    expect(started).toEqual(['a', 'b', 'a'])
+
+    // A paused waiting download is skipped until resumed
+    expect(queue.pause('c')).toBe(true)
+    await complete('a')
+    expect(started).toEqual(['a', 'b', 'a'])
+    expect(queue.resume('c')).toBe(true)
+    expect(started).toEqual(['a', 'b', 'a', 'c'])
+    queue.clearAllTimers()
+  })
+})
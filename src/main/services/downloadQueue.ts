@@ -1,5 +1,7 @@
 import { EventEmitter } from 'events'
 import { BrowserWindow } from 'electron'
+import type { CollisionPolicy, CollisionOutcome } from './collision'
+import { Clock, TimeWindow, systemClock, isInWindow, nextWindowStart, nextWindowEnd } from './schedule'
 
 export interface QueuedDownload {
   id: string
@@ -13,20 +15,136 @@ export interface QueuedDownload {
   priority: number
   title?: string
   error?: string
+  errorDetails?: DownloadErrorDetails
+  groupId?: string // shared by items enqueued from one playlist
 }
 
+// What is kept of an unfinished download across restarts
+export type SavedDownload = Pick<
+  QueuedDownload,
+  'id' | 'url' | 'options' | 'retryCount' | 'addedAt' | 'priority' | 'title' | 'groupId'
+> & {
+  status: 'queued' | 'paused' | 'active'
+}
+
+// Position of a download within the playlist it was expanded from
+export interface PlaylistContext {
+  id: string
+  title: string
+  index: number // 1-based
+  count: number
+}
+
+// Subscription a download was enqueued by, archived from this once it completes
+export interface SubscriptionContext {
+  id: string
+  videoId: string
+}
+
+export type AudioFormat = 'mp3' | 'm4a' | 'opus' | 'ogg' | 'flac' | 'wav'
+
+export type MediaMode = 'audio' | 'video'
+
+export type VideoContainer = 'mp4' | 'mkv'
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'txt' | 'lrc'
+
+export type LoudnessPreset = 'podcast' | 'music' | 'broadcast'
+
+export type AudioCodecPreference = 'opus' | 'aac'
+
+// Source stream for audio mode: a format id picked from the preview, or a rule applied to the
+// streams the video offers. Either falls back to the best stream when nothing matches.
+export type AudioSource =
+  | { kind: 'format'; formatId: string }
+  | { kind: 'rule'; codec?: AudioCodecPreference; maxBitrate?: number; language?: string }
+
+// Post-processing step a 'converting' download is in
+export type ProcessingPhase =
+  | 'fetching-info'
+  | 'downloading'
+  | 'extracting' // yt-dlp converting the downloaded stream to the audio format
+  | 'post-processing' // other yt-dlp post-processors, e.g. embedding metadata and cover art
+  | 'merging'
+  | 'analyzing-loudness'
+  | 'normalizing'
+  | 'speed-adjust'
+  | 'splitting'
+  | 'subtitles'
+  | 'collision' // waiting for the user to decide about an existing file
+
 export interface DownloadOptions {
-  quality: '128' | '192' | '256' | '320'
-  speed: number
+  mode: MediaMode
+  format: AudioFormat
+  quality: '128' | '192' | '256' | '320' // kbps, ignored for lossless formats
+  speed: number // 0.25 - 4
+  pitch?: number // semitones, -12 - 12
+  audioSource?: AudioSource // audio mode only, default the best stream
   outputDir?: string
-  rateLimit?: number // KB/s, 0 = unlimited
+  rateLimit?: number // KB/s cap for this download within the shared budget, 0 = none
+  embedMetadata?: boolean // write tags and cover art
+  cropThumbnail?: boolean // crop cover art to a square
+  splitChapters?: boolean // one file per chapter in a subfolder
+  startTime?: number // seconds, clip start
+  endTime?: number // seconds, clip end
+  normalize?: LoudnessPreset | 'off' // EBU R128 loudness target
+  videoContainer?: VideoContainer // video mode only
+  maxHeight?: number // video mode only, e.g. 1080
+  embedSubtitles?: boolean // video mode only
+  subtitleLanguage?: string // e.g. 'en', caption sidecars are only written when set
+  subtitleFormats?: SubtitleFormat[]
+  autoSubtitles?: boolean // fall back to auto-generated captions, default true
+  playlist?: PlaylistContext // set for items expanded from a playlist
+  subscription?: SubscriptionContext // set for items enqueued by a subscription check
+  filenameTemplate?: string // see filenameTemplate.ts, defaults to "{title}"
+  collisionPolicy?: CollisionPolicy // defaults to numbering the new file
+  notBefore?: number // epoch ms, the queue holds the download until then
+}
+
+// Error types for better classification
+export enum DownloadErrorType {
+  NETWORK = 'network',
+  VIDEO_NOT_FOUND = 'video_not_found',
+  VIDEO_PRIVATE = 'video_private',
+  AGE_RESTRICTED = 'age_restricted',
+  RATE_LIMITED = 'rate_limited',
+  FFMPEG_ERROR = 'ffmpeg_error',
+  DISK_FULL = 'disk_full',
+  TIMEOUT = 'timeout',
+  CANCELLED = 'cancelled',
+  UNKNOWN = 'unknown'
+}
+
+// One failed try of a download
+export interface DownloadAttempt {
+  attempt: number // 0 = the first try
+  startedAt: number // epoch ms
+  endedAt: number
+  errorType: DownloadErrorType
+  error: string // last line of the raw error, for a failed transfer that is yt-dlp's stderr
+}
+
+// Why a download failed, shown on its error card and copied for bug reports
+export interface DownloadErrorDetails {
+  errorType: DownloadErrorType
+  retryable: boolean
+  attempts: DownloadAttempt[]
+  stderrTail?: string // last lines of the final attempt's raw error
+}
+
+// Thrown by the download function once it gives up
+export class DownloadError extends Error {
+  constructor(message: string, readonly details: DownloadErrorDetails) {
+    super(message)
+    this.name = 'DownloadError'
+  }
 }
 
 export interface QueueConfig {
   maxConcurrent: number
   maxRetries: number
   retryDelayBase: number // ms
-  downloadTimeout: number // ms
+  downloadTimeout: number // ms without progress before an attempt fails
   idleTimeout: number // ms
 }
 
@@ -39,18 +157,34 @@ export interface QueueStatus {
 
 export interface EnhancedDownloadProgress {
   id: string
-  status: 'pending' | 'queued' | 'downloading' | 'converting' | 'complete' | 'error' | 'retrying'
+  status: 'pending' | 'queued' | 'scheduled' | 'downloading' | 'converting' | 'complete' | 'error' | 'retrying' | 'paused'
   percent: number
+  phase?: ProcessingPhase
   speed?: string
   speedBps?: number
   eta?: string
   etaSeconds?: number
+  downloadedBytes?: number // of the stream being fetched
+  totalBytes?: number
   title?: string
   error?: string
+  errorType?: DownloadErrorType
+  retryable?: boolean
+  attempts?: DownloadAttempt[]
+  stderrTail?: string
   outputPath?: string
   retryCount?: number
   maxRetries?: number
   queuePosition?: number
+  startsAt?: number // epoch ms a 'scheduled' download may start, for a countdown
+  trackIndex?: number // 1-based chapter track being written
+  trackCount?: number
+  streamIndex?: number // 1-based stream being fetched when video and audio download separately
+  streamCount?: number
+  groupId?: string
+  groupTitle?: string
+  collision?: CollisionOutcome // set when an existing file was skipped, renamed around or overwritten
+  conflictPath?: string // existing file while phase is 'collision'
 }
 
 type DownloadFunction = (
@@ -59,29 +193,45 @@ type DownloadFunction = (
   options: DownloadOptions,
   outputDir: string,
   onProgress: (progress: EnhancedDownloadProgress) => void,
-  config: { maxRetries: number; retryDelayBase: number; timeout: number }
+  config: {
+    maxRetries: number
+    retryDelayBase: number
+    timeout: number // ms without progress
+    attempt: number
+    signal: AbortSignal // aborted when the download is paused, its run must not start new attempts
+  }
 ) => Promise<void>
 
 const DEFAULT_CONFIG: QueueConfig = {
   maxConcurrent: 2,
   maxRetries: 3,
   retryDelayBase: 1000,
-  downloadTimeout: 300000, // 5 minutes
+  downloadTimeout: 300000, // 5 minutes without progress
   idleTimeout: 30000, // 30 seconds
 }
 
+// Re-check the schedule at least this often, timers drift across sleep and clock changes
+const MAX_WAKE_DELAY_MS = 60 * 60 * 1000
+
 export class DownloadQueueManager extends EventEmitter {
   private queue: Map<string, QueuedDownload> = new Map()
   private activeDownloads: Set<string> = new Set()
+  // The current run of each active download; a paused run is dropped and its late results ignored
+  private runs: Map<string, AbortController> = new Map()
   private cleanupTimers: Map<string, NodeJS.Timeout> = new Map()
   private config: QueueConfig
   private window: BrowserWindow | null = null
   private downloadFn: DownloadFunction | null = null
   private outputDir: string = ''
+  private clock: Clock
+  // Downloads only start inside this daily window, null = any time
+  private timeWindow: TimeWindow | null = null
+  private wakeTimer: unknown = null
 
-  constructor(config: Partial<QueueConfig> = {}) {
+  constructor(config: Partial<QueueConfig> = {}, clock: Clock = systemClock) {
     super()
     this.config = { ...DEFAULT_CONFIG, ...config }
+    this.clock = clock
   }
 
   setWindow(window: BrowserWindow): void {
@@ -106,7 +256,14 @@ export class DownloadQueueManager extends EventEmitter {
     return { ...this.config }
   }
 
-  add(id: string, url: string, options: DownloadOptions, priority: number = 0): string {
+  // Running downloads finish when the window closes, waiting ones are held until it opens
+  setTimeWindow(window: TimeWindow | null): void {
+    this.timeWindow = window
+    this.updateQueuePositions()
+    this.processQueue()
+  }
+
+  add(id: string, url: string, options: DownloadOptions, priority: number = 0, groupId?: string): string {
     const download: QueuedDownload = {
       id,
       url,
@@ -114,17 +271,14 @@ export class DownloadQueueManager extends EventEmitter {
       status: 'queued',
       retryCount: 0,
       maxRetries: this.config.maxRetries,
-      addedAt: Date.now(),
+      addedAt: this.clock.now(),
       priority,
+      ...(groupId ? { groupId } : {}),
     }
 
     this.queue.set(id, download)
-    this.sendProgress({
-      id,
-      status: 'queued',
-      percent: 0,
-      queuePosition: this.getQueuePosition(id),
-    })
+    this.sendProgress(this.getWaitingProgress(download))
+    this.notifyChanged()
 
     // Start processing if we have capacity
     this.processQueue()
@@ -132,6 +286,47 @@ export class DownloadQueueManager extends EventEmitter {
     return id
   }
 
+  // Re-add downloads saved when the app last quit. Downloads that were running start over
+  // as queued, keeping their place and the attempts they already used.
+  restore(saved: SavedDownload[]): void {
+    for (const item of saved) {
+      if (this.queue.has(item.id)) continue
+
+      this.queue.set(item.id, {
+        ...item,
+        status: item.status === 'paused' ? 'paused' : 'queued',
+        maxRetries: this.config.maxRetries,
+      })
+      if (item.status === 'paused') {
+        this.sendProgress({ id: item.id, status: 'paused', percent: 0, title: item.title })
+      }
+    }
+    this.notifyChanged()
+
+    this.updateQueuePositions()
+    this.processQueue()
+  }
+
+  // Unfinished downloads, in queue order
+  getSavedDownloads(): SavedDownload[] {
+    const unfinished: SavedDownload[] = []
+    for (const d of this.queue.values()) {
+      if (d.status !== 'queued' && d.status !== 'paused' && d.status !== 'active') continue
+      unfinished.push({
+        id: d.id,
+        url: d.url,
+        options: d.options,
+        status: d.status,
+        retryCount: d.retryCount,
+        addedAt: d.addedAt,
+        priority: d.priority,
+        ...(d.title ? { title: d.title } : {}),
+        ...(d.groupId ? { groupId: d.groupId } : {}),
+      })
+    }
+    return unfinished.sort((a, b) => b.priority - a.priority || a.addedAt - b.addedAt)
+  }
+
   cancel(id: string): boolean {
     const download = this.queue.get(id)
     if (!download) return false
@@ -139,6 +334,8 @@ export class DownloadQueueManager extends EventEmitter {
     if (download.status === 'active') {
       this.activeDownloads.delete(id)
     }
+    this.runs.get(id)?.abort()
+    this.runs.delete(id)
 
     // Clear any pending cleanup timer
     const timer = this.cleanupTimers.get(id)
@@ -148,7 +345,8 @@ export class DownloadQueueManager extends EventEmitter {
     }
 
     this.queue.delete(id)
-    this.emit('cancelled', id)
+    this.emit('cancelled', id, download)
+    this.notifyChanged()
 
     // Process next in queue
     this.processQueue()
@@ -163,11 +361,49 @@ export class DownloadQueueManager extends EventEmitter {
     }
   }
 
+  // Cancel every remaining item of a playlist group, returns the cancelled ids
+  cancelGroup(groupId: string): string[] {
+    const ids = this.getGroupIds(groupId)
+    for (const id of ids) {
+      this.cancel(id)
+    }
+    return ids
+  }
+
+  getGroupIds(groupId: string): string[] {
+    return Array.from(this.queue.values())
+      .filter(d => d.groupId === groupId)
+      .map(d => d.id)
+  }
+
+  // Queued downloads are held back, active ones are stopped (see 'paused' listeners) and free
+  // their slot; both continue from their partial files when resumed
   pause(id: string): boolean {
     const download = this.queue.get(id)
-    if (!download || download.status !== 'queued') return false
+    if (!download || (download.status !== 'queued' && download.status !== 'active')) return false
 
+    const wasActive = download.status === 'active'
     download.status = 'paused'
+
+    if (wasActive) {
+      this.runs.get(id)?.abort()
+      this.runs.delete(id)
+      this.activeDownloads.delete(id)
+      this.emit('paused', id)
+    }
+
+    this.sendProgress({
+      id,
+      status: 'paused',
+      percent: 0,
+      title: download.title,
+    })
+    this.notifyChanged()
+    this.updateQueuePositions()
+
+    if (wasActive) {
+      this.processQueue()
+    }
     return true
   }
 
@@ -176,10 +412,70 @@ export class DownloadQueueManager extends EventEmitter {
     if (!download || download.status !== 'paused') return false
 
     download.status = 'queued'
+    this.updateQueuePositions()
+    this.notifyChanged()
+    this.processQueue()
+    return true
+  }
+
+  // Run a failed download again from its first attempt, with new options when given
+  retry(id: string, options?: DownloadOptions): boolean {
+    const download = this.queue.get(id)
+    if (!download || download.status !== 'error') return false
+
+    if (options) {
+      download.options = options
+    }
+    download.status = 'queued'
+    download.retryCount = 0
+    download.error = undefined
+    download.errorDetails = undefined
+
+    this.updateQueuePositions()
+    this.notifyChanged()
     this.processQueue()
     return true
   }
 
+  // Put the waiting (queued and paused) downloads in the given order. Ids that are missing
+  // keep their relative order after the listed ones.
+  reorder(ids: string[]): boolean {
+    const waiting = this.getWaitingDownloads()
+    const listed = ids
+      .map(id => waiting.find(d => d.id === id))
+      .filter((d, i, all): d is QueuedDownload => d !== undefined && all.indexOf(d) === i)
+    if (listed.length === 0) return false
+
+    const ordered = [...listed, ...waiting.filter(d => !listed.includes(d))]
+    // Priorities count down to 1, so downloads added later (priority 0) still go last
+    ordered.forEach((download, index) => {
+      download.priority = ordered.length - index
+    })
+
+    this.updateQueuePositions()
+    this.notifyChanged()
+    return true
+  }
+
+  move(id: string, to: 'top' | 'bottom'): boolean {
+    const ids = this.getWaitingDownloads().map(d => d.id)
+    if (!ids.includes(id)) return false
+
+    const others = ids.filter(other => other !== id)
+    return this.reorder(to === 'top' ? [id, ...others] : [...others, id])
+  }
+
+  // First in line, resumed if it was paused
+  downloadNext(id: string): boolean {
+    if (!this.move(id, 'top')) return false
+
+    const download = this.queue.get(id)
+    if (download?.status === 'paused') {
+      this.resume(id)
+    }
+    return true
+  }
+
   getQueueStatus(): QueueStatus {
     const downloads = Array.from(this.queue.values())
     return {
@@ -194,6 +490,13 @@ export class DownloadQueueManager extends EventEmitter {
     return this.queue.get(id)
   }
 
+  // Queued and paused downloads in the order they will start
+  private getWaitingDownloads(): QueuedDownload[] {
+    return Array.from(this.queue.values())
+      .filter(d => d.status === 'queued' || d.status === 'paused')
+      .sort((a, b) => b.priority - a.priority || a.addedAt - b.addedAt)
+  }
+
   private getQueuePosition(id: string): number {
     const queued = Array.from(this.queue.values())
       .filter(d => d.status === 'queued')
@@ -211,7 +514,7 @@ export class DownloadQueueManager extends EventEmitter {
 
       // Mark as active immediately before starting
       next.status = 'active'
-      next.startedAt = Date.now()
+      next.startedAt = this.clock.now()
       this.activeDownloads.add(next.id)
 
       // Send initial 'downloading' status
@@ -224,10 +527,62 @@ export class DownloadQueueManager extends EventEmitter {
 
       // Update queue positions for remaining items
       this.updateQueuePositions()
+      this.notifyChanged()
 
       // Start download asynchronously (fire-and-forget)
       this.executeDownloadAsync(next)
     }
+
+    this.scheduleWake()
+  }
+
+  // Earliest time a waiting download may start; now or earlier when nothing holds it
+  private getStartTime(download: QueuedDownload): number {
+    const earliest = Math.max(this.clock.now(), download.options.notBefore ?? 0)
+    return this.timeWindow ? nextWindowStart(earliest, this.timeWindow) : earliest
+  }
+
+  // 'queued' with its position, or 'scheduled' with the time it may start
+  private getWaitingProgress(download: QueuedDownload, position?: number): EnhancedDownloadProgress {
+    const startsAt = this.getStartTime(download)
+    return {
+      id: download.id,
+      status: startsAt > this.clock.now() ? 'scheduled' : 'queued',
+      percent: 0,
+      queuePosition: position ?? this.getQueuePosition(download.id),
+      title: download.title,
+      ...(startsAt > this.clock.now() ? { startsAt } : {}),
+    }
+  }
+
+  // Wake up when a held download may start or the window closes, to start or re-label them
+  private scheduleWake(): void {
+    if (this.wakeTimer !== null) {
+      this.clock.clearTimeout(this.wakeTimer)
+      this.wakeTimer = null
+    }
+
+    const queued = Array.from(this.queue.values()).filter(d => d.status === 'queued')
+    if (queued.length === 0) return
+
+    const now = this.clock.now()
+    let next = Infinity
+    for (const download of queued) {
+      const startsAt = this.getStartTime(download)
+      if (startsAt > now) {
+        next = Math.min(next, startsAt)
+      }
+    }
+    if (this.timeWindow && isInWindow(now, this.timeWindow)) {
+      next = Math.min(next, nextWindowEnd(now, this.timeWindow) ?? Infinity)
+    }
+    if (next === Infinity) return
+
+    this.wakeTimer = this.clock.setTimeout(() => {
+      this.wakeTimer = null
+      this.updateQueuePositions()
+      this.processQueue()
+    }, Math.min(next - now, MAX_WAKE_DELAY_MS))
   }
 
   private executeDownloadAsync(download: QueuedDownload): void {
@@ -239,6 +594,11 @@ export class DownloadQueueManager extends EventEmitter {
       return
     }
 
+    const run = new AbortController()
+    this.runs.set(download.id, run)
+    // False once the download was paused or cancelled, a later run may own the id by then
+    const isCurrent = () => this.runs.get(download.id) === run
+
     // Wrap in try-catch to handle synchronous errors from the download function
     let downloadPromise: Promise<void>
     try {
@@ -247,15 +607,20 @@ export class DownloadQueueManager extends EventEmitter {
         download.url,
         download.options,
         download.options.outputDir || this.outputDir,
-        (progress) => this.sendProgress(progress),
+        (progress) => {
+          if (isCurrent()) this.sendProgress(progress)
+        },
         {
           maxRetries: download.maxRetries,
           retryDelayBase: this.config.retryDelayBase,
           timeout: this.config.downloadTimeout,
+          attempt: download.retryCount,
+          signal: run.signal,
         }
       )
     } catch (error: any) {
       // Handle synchronous errors
+      this.runs.delete(download.id)
       this.activeDownloads.delete(download.id)
       download.status = 'error'
       download.error = error.message || 'Download failed to start'
@@ -271,29 +636,38 @@ export class DownloadQueueManager extends EventEmitter {
 
     downloadPromise
       .then(() => {
+        if (!isCurrent()) return
         download.status = 'completed'
       })
       .catch((error: any) => {
+        if (!isCurrent()) return
         download.status = 'error'
         download.error = error.message || 'Download failed'
+        download.errorDetails = error instanceof DownloadError ? error.details : undefined
         this.sendProgress({
           id: download.id,
           status: 'error',
           percent: 0,
           error: download.error,
+          ...download.errorDetails,
         })
       })
       .finally(() => {
+        if (!isCurrent()) return
+        this.runs.delete(download.id)
         this.activeDownloads.delete(download.id)
+        this.notifyChanged()
 
-        // Remove completed/errored downloads from queue after a delay
-        const cleanupTimer = setTimeout(() => {
-          this.cleanupTimers.delete(download.id)
-          if (download.status === 'completed' || download.status === 'error') {
+        // Remove completed downloads from queue after a delay, failed ones stay until they are
+        // retried or removed
+        if (download.status === 'completed') {
+          const cleanupTimer = setTimeout(() => {
+            this.cleanupTimers.delete(download.id)
             this.queue.delete(download.id)
-          }
-        }, 5000)
-        this.cleanupTimers.set(download.id, cleanupTimer)
+            this.notifyChanged()
+          }, 5000)
+          this.cleanupTimers.set(download.id, cleanupTimer)
+        }
 
         // Process next in queue (may start more downloads if capacity available)
         this.processQueue()
@@ -301,8 +675,9 @@ export class DownloadQueueManager extends EventEmitter {
   }
 
   private getNextQueuedDownload(): QueuedDownload | null {
+    const now = this.clock.now()
     const queued = Array.from(this.queue.values())
-      .filter(d => d.status === 'queued')
+      .filter(d => d.status === 'queued' && this.getStartTime(d) <= now)
       .sort((a, b) => b.priority - a.priority || a.addedAt - b.addedAt)
 
     return queued[0] || null
@@ -314,17 +689,50 @@ export class DownloadQueueManager extends EventEmitter {
       .sort((a, b) => b.priority - a.priority || a.addedAt - b.addedAt)
 
     queued.forEach((download, index) => {
-      this.sendProgress({
-        id: download.id,
-        status: 'queued',
-        percent: 0,
-        queuePosition: index + 1,
-        title: download.title,
-      })
+      this.sendProgress(this.getWaitingProgress(download, index + 1))
     })
   }
 
+  // Saved across restarts (see queuePersistence) and shown in the queue panel
+  private notifyChanged(): void {
+    this.emit('changed')
+    try {
+      if (this.window && !this.window.isDestroyed()) {
+        this.window.webContents.send('queue:updated', this.getQueueStatus())
+      }
+    } catch (error) {
+      console.error('Failed to send queue status:', error)
+    }
+  }
+
   private sendProgress(progress: EnhancedDownloadProgress): void {
+    // Keep what is saved across restarts up to date
+    const download = this.queue.get(progress.id)
+    if (download) {
+      const title = progress.title || download.title
+      const retryCount = progress.status === 'retrying'
+        ? progress.retryCount ?? download.retryCount
+        : download.retryCount
+      if (title !== download.title || retryCount !== download.retryCount) {
+        download.title = title
+        download.retryCount = retryCount
+        this.notifyChanged()
+      }
+      // Updates sent before the title is known (e.g. fetching info on a retry) keep showing it
+      if (title && !progress.title) {
+        progress = { ...progress, title }
+      }
+    }
+
+    // Tag playlist items so the renderer can offer a group cancel
+    if (download?.groupId) {
+      progress = {
+        ...progress,
+        groupId: download.groupId,
+        groupTitle: download.options.playlist?.title,
+      }
+    }
+
     try {
       if (this.window && !this.window.isDestroyed()) {
         this.window.webContents.send('download:progress', progress)
@@ -342,6 +750,10 @@ export class DownloadQueueManager extends EventEmitter {
       clearTimeout(timer)
     }
     this.cleanupTimers.clear()
+    if (this.wakeTimer !== null) {
+      this.clock.clearTimeout(this.wakeTimer)
+      this.wakeTimer = null
+    }
   }
 }
 
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EventEmitter } from 'events'
+import { tmpdir } from 'os'
+import type { VideoInfoResult } from './videoInfo'
+import type { DownloadOptions } from './downloadQueue'
+
+type ResolveInfo = (result: VideoInfoResult) => void
+
+const mocks = vi.hoisted(() => ({
+  spawn: vi.fn(),
+  // Handed the resolver of the info lookup a download starts, see nextLookup
+  onLookup: null as ((resolve: ResolveInfo) => void) | null,
+}))
+
+vi.mock('electron', () => ({
+  app: { getPath: () => tmpdir() },
+  BrowserWindow: class {},
+  safeStorage: { isEncryptionAvailable: () => false },
+}))
+
+vi.mock('electron-store', () => ({
+  default: class {
+    private data: Record<string, unknown>
+    constructor(options: { defaults?: Record<string, unknown> } = {}) {
+      this.data = { ...options.defaults }
+    }
+    get(key: string, fallback?: unknown) {
+      return this.data[key] ?? fallback
+    }
+    set(key: string, value: unknown) {
+      this.data[key] = value
+    }
+  },
+}))
+
+vi.mock('fluent-ffmpeg', () => ({
+  default: Object.assign(vi.fn(), { setFfmpegPath: vi.fn() }),
+}))
+
+vi.mock('child_process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  spawn: mocks.spawn,
+}))
+
+vi.mock('./videoInfo', () => ({
+  loadVideoInfo: vi.fn(() => new Promise((resolve) => {
+    mocks.onLookup?.(resolve)
+  })),
+  invalidateVideoInfo: vi.fn(async () => {}),
+  getAudioStreams: vi.fn(() => []),
+}))
+
+const { initializeDownloadQueue } = await import('./downloader')
+const { getDownloadQueue } = await import('./downloadQueue')
+
+// Resolves with the resolver of the next info lookup, call before the download is added
+function nextLookup(): Promise<ResolveInfo> {
+  return new Promise((resolve) => {
+    mocks.onLookup = (resolveInfo) => {
+      mocks.onLookup = null
+      resolve(resolveInfo)
+    }
+  })
+}
+
+// A yt-dlp run that only ends when the test says so
+function createFakeProcess() {
+  return Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn(() => true),
+  })
+}
+
+// Resolves with the next yt-dlp run and its arguments, call before it is started
+function nextSpawn(): Promise<{ ytdlp: ReturnType<typeof createFakeProcess>; args: string[] }> {
+  return new Promise((resolve) => {
+    mocks.spawn.mockImplementationOnce((_command: string, args: string[]) => {
+      const ytdlp = createFakeProcess()
+      resolve({ ytdlp, args })
+      return ytdlp
+    })
+  })
+}
+
+// Lets the handlers of a settled lookup run
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+describe('pausing a download', () => {
+  const sent: any[] = []
+  const window = {
+    isDestroyed: () => false,
+    webContents: { send: (_channel: string, payload: unknown) => sent.push(payload) },
+  }
+
+  beforeEach(() => {
+    sent.length = 0
+    mocks.spawn.mockClear()
+    mocks.onLookup = null
+    initializeDownloadQueue(window as any)
+  })
+
+  it('starts no yt-dlp run when paused while fetching the video info', async () => {
+    const queue = getDownloadQueue()
+    const lookup = nextLookup()
+    queue.add('fetching', 'https://www.youtube.com/watch?v=aaaaaaaaaaa', {
+      mode: 'audio',
+      format: 'mp3',
+      quality: '192',
+      speed: 1,
+      outputDir: tmpdir(),
+    })
+
+    const resolveInfo = await lookup
+    expect(sent.some((p) => p.id === 'fetching' && p.phase === 'fetching-info')).toBe(true)
+
+    expect(queue.pause('fetching')).toBe(true)
+    resolveInfo({ info: { id: 'aaaaaaaaaaa', title: 'Paused video' }, cached: true, fetchMs: 0 })
+    await flush()
+
+    expect(mocks.spawn).not.toHaveBeenCalled()
+    expect(queue.getDownload('fetching')?.status).toBe('paused')
+    expect(sent.some((p) => p.id === 'fetching' && (p.status === 'complete' || p.status === 'error'))).toBe(false)
+
+    queue.cancel('fetching')
+  })
+
+  it('falls back to the best audio stream when the picked one is no longer offered', async () => {
+    const spawned = nextSpawn()
+
+    const queue = getDownloadQueue()
+    const lookup = nextLookup()
+    queue.add('stream', 'https://www.youtube.com/watch?v=bbbbbbbbbbb', {
+      mode: 'audio',
+      format: 'mp3',
+      quality: '192',
+      speed: 1,
+      outputDir: tmpdir(),
+      audioSource: { kind: 'format', formatId: '251' },
+    })
+
+    const resolveInfo = await lookup
+    resolveInfo({ info: { id: 'bbbbbbbbbbb', title: 'Changed video' }, cached: true, fetchMs: 0 })
+
+    const { ytdlp, args } = await spawned
+    expect(args[args.indexOf('-f') + 1]).toBe('251/bestaudio')
+    expect(sent.some((p) => p.id === 'stream' && p.status === 'error')).toBe(false)
+
+    queue.cancel('stream')
+    expect(ytdlp.kill).toHaveBeenCalled()
+  })
+
+  it('keeps the resumed run when the paused run\'s yt-dlp closes late', async () => {
+    const queue = getDownloadQueue()
+    const options: DownloadOptions = { mode: 'audio', format: 'mp3', quality: '192', speed: 1, outputDir: tmpdir() }
+    const info = { info: { id: 'ccccccccccc', title: 'Resumed video' }, cached: true, fetchMs: 0 }
+
+    let lookup = nextLookup()
+    let spawned = nextSpawn()
+    queue.add('resumed', 'https://www.youtube.com/watch?v=ccccccccccc', options)
+    const resolveFirst = await lookup
+    resolveFirst(info)
+    const first = await spawned
+
+    // Paused and resumed before the first run's yt-dlp has exited
+    expect(queue.pause('resumed')).toBe(true)
+    expect(first.ytdlp.kill).toHaveBeenCalled()
+    lookup = nextLookup()
+    spawned = nextSpawn()
+    expect(queue.resume('resumed')).toBe(true)
+    const resolveSecond = await lookup
+    resolveSecond(info)
+    const second = await spawned
+
+    first.ytdlp.emit('close', null)
+    await flush()
+
+    queue.cancel('resumed')
+    expect(second.ytdlp.kill).toHaveBeenCalled()
+  })
+
+  it('starts nothing from an attempt that stalled once the retry has begun', async () => {
+    const queue = getDownloadQueue()
+    const config = queue.getConfig()
+    queue.updateConfig({ downloadTimeout: 20, retryDelayBase: 1 })
+
+    const stalledLookup = nextLookup()
+    queue.add('stalled', 'https://www.youtube.com/watch?v=ddddddddddd', {
+      mode: 'audio',
+      format: 'mp3',
+      quality: '192',
+      speed: 1,
+      outputDir: tmpdir(),
+    })
+    const resolveStalled = await stalledLookup
+
+    // The retry asks for the info again after the first attempt timed out
+    const retryLookup = nextLookup()
+    await retryLookup
+    resolveStalled({ info: { id: 'ddddddddddd', title: 'Stalled video' }, cached: true, fetchMs: 0 })
+    await flush()
+
+    // The stalled attempt stops before announcing the transfer it would start
+    expect(sent.some((p) => p.id === 'stalled' && p.title === 'Stalled video')).toBe(false)
+    expect(mocks.spawn).not.toHaveBeenCalled()
+    queue.cancel('stalled')
+    queue.updateConfig(config)
+  })
+})
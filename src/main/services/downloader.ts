@@ -1,13 +1,67 @@
 import crypto from 'crypto'
 import { app, BrowserWindow } from 'electron'
 import { spawn, ChildProcess } from 'child_process'
-import { join } from 'path'
+import { join, extname, dirname } from 'path'
 import { existsSync, mkdirSync, statfsSync } from 'fs'
-import { unlink } from 'fs/promises'
+import { unlink, rm, writeFile } from 'fs/promises'
 import ffmpeg, { FfmpegCommand } from 'fluent-ffmpeg'
-import { YTDLP_PATH, FFMPEG_PATH, TUBERUN_DIR } from './setup'
-import { addToHistory } from './history'
-import { getDownloadQueue, EnhancedDownloadProgress, DownloadOptions } from './downloadQueue'
+import { getYtdlpPath, getFfmpegPath, getTuberunDir } from './setup'
+import { addToHistory, buildOptionsKey, DownloadTimings } from './history'
+import { extractVideoId } from './videoId'
+import { getCookieArgs } from './cookies'
+import {
+  getDownloadQueue,
+  EnhancedDownloadProgress,
+  DownloadOptions,
+  AudioFormat,
+  VideoContainer,
+  QueuedDownload,
+  ProcessingPhase,
+  DownloadAttempt,
+  DownloadError,
+  DownloadErrorType,
+} from './downloadQueue'
+import {
+  AUDIO_FORMATS,
+  VIDEO_CONTAINERS,
+  CoverArtSupport,
+  DEFAULT_VIDEO_HEIGHT,
+  qualityToBitrate,
+  qualityToYtdlpArg,
+  buildVideoFormatSelector,
+  buildAudioFormatSelector,
+} from './formats'
+import { toDownloadSection, formatClipLabel } from './clip'
+import { getClipRangeError } from '../../shared/clip'
+import {
+  LOUDNESS_PRESETS,
+  LoudnessTarget,
+  LoudnessMeasurement,
+  buildMeasureFilter,
+  buildNormalizeFilters,
+  parseMeasurement,
+} from './loudness'
+import { selectCaptionTrack, fetchCaptionText, writeSidecars } from './subtitles'
+import type { PlaylistEntry } from './playlist'
+import {
+  renderFilename,
+  validateTemplate,
+  FilenameFields,
+  SAMPLE_FILENAME_FIELDS,
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_PLAYLIST_FILENAME_TEMPLATE,
+} from './filenameTemplate'
+import {
+  placeFile,
+  placeDirectory,
+  CollisionDecision,
+  CollisionOutcome,
+  DEFAULT_COLLISION_POLICY,
+} from './collision'
+import { getWorkspace, removeWorkspace, cleanupStalePartials } from './partials'
+import { getBandwidthManager } from './bandwidth'
+import { loadVideoInfo, invalidateVideoInfo, getAudioStreams } from './videoInfo'
+import { PROGRESS_TEMPLATE_ARGS, parseProgressLine, createLineBuffer, formatSpeed, formatEta } from './ytdlpProgress'
 
 // Platform detection
 const isWindows = process.platform === 'win32'
@@ -28,25 +82,33 @@ const activeFFmpegCommands = new Map<string, FfmpegCommand>()
 // Track processed downloads to prevent double-handling
 const processedDownloads = new Set<string>()
 
-// Windows reserved filenames
-const WINDOWS_RESERVED_NAMES = /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])$/i
+// Downloads waiting for the user to answer a "file exists" prompt
+const pendingCollisions = new Map<string, { resolve: (decision: CollisionDecision) => void; reject: (error: Error) => void }>()
+
+// Unanswered prompts fall back to numbering so a queue never stalls and nothing is overwritten
+const COLLISION_PROMPT_TIMEOUT_MS = 30000
+
+// Set on app exit: downloads torn down by quitting keep their partial files for the next launch
+let keepPartialsOnCancel = false
+
+// Subtitle sidecars are downloaded like streams but are not media streams
+const SUBTITLE_FILE_PATTERN = /\.(vtt|srt|ass|ttml|srv[123]|json3)$/i
+
+// Phases shown for yt-dlp's own post-processors, others are 'post-processing'
+const POSTPROCESSOR_PHASES: Record<string, ProcessingPhase> = {
+  Merger: 'merging',
+  ExtractAudio: 'extracting',
+}
+
+// Working sample rate for pitch shifting
+const PITCH_SAMPLE_RATE = 48000
 
 // Re-export types
 export type { DownloadOptions, EnhancedDownloadProgress }
+export { DownloadErrorType }
 
-// Error types for better classification
-export enum DownloadErrorType {
-  NETWORK = 'network',
-  VIDEO_NOT_FOUND = 'video_not_found',
-  VIDEO_PRIVATE = 'video_private',
-  AGE_RESTRICTED = 'age_restricted',
-  RATE_LIMITED = 'rate_limited',
-  FFMPEG_ERROR = 'ffmpeg_error',
-  DISK_FULL = 'disk_full',
-  TIMEOUT = 'timeout',
-  CANCELLED = 'cancelled',
-  UNKNOWN = 'unknown'
-}
+// Lines of the final raw error kept for the error details, yt-dlp's actual error is at the end
+const STDERR_TAIL_LINES = 20
 
 interface ClassifiedError {
   type: DownloadErrorType
@@ -55,7 +117,7 @@ interface ClassifiedError {
 }
 
 // Set ffmpeg path
-ffmpeg.setFfmpegPath(FFMPEG_PATH)
+ffmpeg.setFfmpegPath(getFfmpegPath())
 
 // Initialize the queue with the download function
 export function initializeDownloadQueue(window: BrowserWindow): void {
@@ -63,6 +125,36 @@ export function initializeDownloadQueue(window: BrowserWindow): void {
   queue.setWindow(window)
   queue.setOutputDir(OUTPUT_DIR)
   queue.setDownloadFunction(executeDownloadWithRetry)
+
+  // Cancelling through the queue (e.g. a whole playlist) must also stop running processes
+  // and throws away what was fetched so far
+  queue.on('cancelled', (id: string, download?: QueuedDownload) => {
+    const process = activeProcesses.get(id)
+    killDownloadProcesses(id)
+    if (keepPartialsOnCancel || !download) return
+
+    const outputDir = download.options.outputDir || OUTPUT_DIR
+    if (process && process.exitCode === null) {
+      // Wait for yt-dlp to exit so it doesn't write into the removed folder
+      process.once('close', () => removeWorkspace(outputDir, id))
+    } else {
+      removeWorkspace(outputDir, id)
+    }
+  })
+
+  // Pausing stops the processes but keeps the workspace, resuming continues from it
+  queue.on('paused', (id: string) => killDownloadProcesses(id))
+}
+
+// Remove partial files of downloads that are no longer queued once they are older than maxAgeMs
+export function cleanupPartialDownloads(outputDirs: string[], maxAgeMs: number): Promise<number> {
+  const keepIds = new Set(getDownloadQueue().getQueueStatus().downloads.map((d) => d.id))
+  return cleanupStalePartials([OUTPUT_DIR, ...outputDirs], keepIds, maxAgeMs)
+}
+
+// Throw away the partial files of a download that won't be resumed (e.g. a discarded restored queue)
+export function discardPartialDownload(id: string, outputDir?: string): Promise<void> {
+  return removeWorkspace(outputDir || OUTPUT_DIR, id)
 }
 
 // Check available disk space
@@ -80,39 +172,24 @@ function checkDiskSpace(path: string): { available: number; sufficient: boolean
   }
 }
 
-// Sanitize filename for all platforms
-function sanitizeFilename(filename: string): string {
-  // Remove/replace invalid characters
-  let safe = filename.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_')
-
-  // Handle Windows reserved names
-  if (isWindows && WINDOWS_RESERVED_NAMES.test(safe.split('.')[0])) {
-    safe = '_' + safe
+// Full output path a template produces for the sample video, for the settings preview
+export function previewFilename(template: string, outputDir?: string): { path?: string; error?: string } {
+  const error = validateTemplate(template)
+  if (error) {
+    return { error }
   }
 
-  // Limit length (leaving room for extension and temp suffix)
-  safe = safe.substring(0, 80)
-
-  // Remove trailing dots and spaces (Windows issue)
-  safe = safe.replace(/[. ]+$/, '')
-
-  // Ensure non-empty
-  if (!safe) {
-    safe = 'download'
+  const baseDir = outputDir || OUTPUT_DIR
+  try {
+    const name = renderFilename(template, SAMPLE_FILENAME_FIELDS, { baseDir })
+    return { path: join(baseDir, `${name}.${SAMPLE_FILENAME_FIELDS.format}`) }
+  } catch (err: any) {
+    return { error: err.message }
   }
-
-  return safe
 }
 
-// Main entry point for starting a download (used by IPC handler)
-export async function startDownload(
-  _window: BrowserWindow,
-  url: string,
-  options: DownloadOptions
-): Promise<string> {
-  const id = crypto.randomUUID()
-  const outputDir = options.outputDir || OUTPUT_DIR
-
+// Create the output directory and make sure there is room for downloads
+function prepareOutputDir(outputDir: string): void {
   // Ensure output directory exists with error handling
   try {
     if (!existsSync(outputDir)) {
@@ -127,6 +204,17 @@ export async function startDownload(
   if (!diskSpace.sufficient) {
     throw new Error(`Insufficient disk space. Need at least 500MB free.`)
   }
+}
+
+// Main entry point for starting a download (used by IPC handler)
+export async function startDownload(
+  _window: BrowserWindow,
+  url: string,
+  options: DownloadOptions
+): Promise<string> {
+  const id = crypto.randomUUID()
+  const outputDir = options.outputDir || OUTPUT_DIR
+  prepareOutputDir(outputDir)
 
   // Add to queue
   const queue = getDownloadQueue()
@@ -135,8 +223,47 @@ export async function startDownload(
   return id
 }
 
-// Cancel a download
-export function cancelDownload(id: string): void {
+// Queue the selected playlist entries as one group, named by the playlist filename template
+export async function startPlaylistDownload(
+  playlist: { id: string; title: string; count: number },
+  entries: PlaylistEntry[],
+  options: DownloadOptions
+): Promise<{ groupId: string; ids: string[] }> {
+  const groupId = crypto.randomUUID()
+  const outputDir = options.outputDir || OUTPUT_DIR
+  prepareOutputDir(outputDir)
+
+  // Deselected entries don't change the numbering, indexes stay those of the playlist
+  const count = Math.max(playlist.count, ...entries.map((entry) => entry.index))
+
+  const queue = getDownloadQueue()
+  const ids = entries.map((entry) => {
+    const id = crypto.randomUUID()
+    queue.add(id, entry.url, {
+      ...options,
+      outputDir,
+      playlist: { id: playlist.id, title: playlist.title, index: entry.index, count },
+    }, 0, groupId)
+    return id
+  })
+
+  return { groupId, ids }
+}
+
+// Cancel every queued and running download of a playlist group
+export function cancelDownloadGroup(groupId: string): string[] {
+  return getDownloadQueue().cancelGroup(groupId)
+}
+
+// Stop the yt-dlp / FFmpeg processes of a download
+function killDownloadProcesses(id: string): void {
+  // Release a download waiting on a collision prompt
+  const pendingCollision = pendingCollisions.get(id)
+  if (pendingCollision) {
+    pendingCollisions.delete(id)
+    pendingCollision.reject(new Error('Download cancelled'))
+  }
+
   // Kill yt-dlp process
   const process = activeProcesses.get(id)
   if (process) {
@@ -155,14 +282,87 @@ export function cancelDownload(id: string): void {
     }
     activeFFmpegCommands.delete(id)
   }
+}
+
+// Ask the renderer what to do with an existing output file
+function askCollision(
+  id: string,
+  path: string,
+  title: string,
+  onProgress: (progress: EnhancedDownloadProgress) => void
+): Promise<CollisionDecision> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingCollisions.delete(id)
+      resolve('rename')
+    }, COLLISION_PROMPT_TIMEOUT_MS)
+
+    pendingCollisions.set(id, {
+      resolve: (decision) => {
+        clearTimeout(timeout)
+        resolve(decision)
+      },
+      reject: (error) => {
+        clearTimeout(timeout)
+        reject(error)
+      },
+    })
+
+    onProgress({
+      id,
+      status: 'converting',
+      phase: 'collision',
+      percent: 0,
+      title,
+      conflictPath: path,
+    })
+  })
+}
+
+// Answer a collision prompt (used by IPC handler)
+export function resolveCollision(id: string, decision: CollisionDecision): boolean {
+  const pending = pendingCollisions.get(id)
+  if (!pending) return false
+
+  pendingCollisions.delete(id)
+  pending.resolve(decision)
+  return true
+}
+
+// Cancel a download
+export function cancelDownload(id: string): void {
+  // Removing it from the queue kills its processes, see initializeDownloadQueue
+  const queue = getDownloadQueue()
+  if (!queue.cancel(id)) {
+    killDownloadProcesses(id)
+  }
+}
 
-  // Also remove from queue
+// Run a failed download again. Edited options start from scratch, the partial files were
+// fetched for the old ones. A playlist or subscription item stays part of it.
+export async function retryDownload(id: string, options?: DownloadOptions): Promise<boolean> {
   const queue = getDownloadQueue()
-  queue.cancel(id)
+  const download = queue.getDownload(id)
+  if (!download || download.status !== 'error') return false
+  if (!options) return queue.retry(id)
+
+  await removeWorkspace(download.options.outputDir || OUTPUT_DIR, id)
+
+  const outputDir = options.outputDir || OUTPUT_DIR
+  prepareOutputDir(outputDir)
+  const { playlist, filenameTemplate, subscription } = download.options
+  return queue.retry(id, {
+    ...options,
+    outputDir,
+    ...(playlist ? { playlist, filenameTemplate } : {}),
+    ...(subscription ? { subscription } : {}),
+  })
 }
 
 // Kill all active download processes (used on app exit)
 export function killAllDownloads(): void {
+  keepPartialsOnCancel = true
+
   // Kill all yt-dlp processes
   for (const [id, process] of activeProcesses) {
     try {
@@ -194,8 +394,10 @@ function classifyError(error: string): ClassifiedError {
       'This video is not available or may have been removed', false],
     [/Private video|video is private/i, DownloadErrorType.VIDEO_PRIVATE,
       'This video is private', false],
+    [/members-only|Join this channel/i, DownloadErrorType.VIDEO_PRIVATE,
+      'This video is for channel members only', false],
     [/Sign in to confirm your age|age-restricted/i, DownloadErrorType.AGE_RESTRICTED,
-      'This video is age-restricted and cannot be downloaded', false],
+      'This video is age-restricted', false],
     [/429|Too many requests|rate.?limit/i, DownloadErrorType.RATE_LIMITED,
       'YouTube is rate limiting requests. Please try again later', true],
     [/No space left|ENOSPC|disk full/i, DownloadErrorType.DISK_FULL,
@@ -223,6 +425,11 @@ function classifyError(error: string): ClassifiedError {
   }
 }
 
+// Last lines of a multi-line error output
+function tailLines(text: string, count: number): string {
+  return text.trimEnd().split(/\r?\n/).slice(-count).join('\n')
+}
+
 // Sleep helper with jitter for retry delays
 function sleepWithJitter(baseMs: number): Promise<void> {
   // Add 0-50% random jitter to prevent thundering herd
@@ -230,41 +437,38 @@ function sleepWithJitter(baseMs: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, baseMs + jitter))
 }
 
-// Timeout wrapper
-function withTimeout<T>(
-  promise: Promise<T>,
+// Fail when the operation reports no progress for timeoutMs. A long download that keeps
+// moving is left to finish, it can continue from its partial files anyway. onStall stops
+// the operation, it is called after the timeout error is reported.
+function withStallTimeout<T>(
+  run: (onActivity: () => void) => Promise<T>,
   timeoutMs: number,
-  operation: string
+  operation: string,
+  onStall: () => void
 ): Promise<T> {
   return new Promise((resolve, reject) => {
-    const timer = setTimeout(() => {
-      reject(new Error(`${operation} timed out after ${Math.round(timeoutMs / 1000)}s`))
-    }, timeoutMs)
+    let timer: NodeJS.Timeout | null = null
+    const restartTimer = () => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        reject(new Error(`${operation} timed out after ${Math.round(timeoutMs / 1000)}s without progress`))
+        onStall()
+      }, timeoutMs)
+    }
+    restartTimer()
 
-    promise
+    run(restartTimer)
       .then(result => {
-        clearTimeout(timer)
+        if (timer) clearTimeout(timer)
         resolve(result)
       })
       .catch(error => {
-        clearTimeout(timer)
+        if (timer) clearTimeout(timer)
         reject(error)
       })
   })
 }
 
-// Clean up temp files
-async function cleanupTempFiles(outputDir: string, safeTitle: string): Promise<void> {
-  const tempFile = join(outputDir, `${safeTitle}_temp.mp3`)
-  try {
-    if (existsSync(tempFile)) {
-      await unlink(tempFile)
-    }
-  } catch {
-    // Ignore cleanup errors
-  }
-}
-
 // Download with retry logic
 async function executeDownloadWithRetry(
   id: string,
@@ -272,11 +476,14 @@ async function executeDownloadWithRetry(
   options: DownloadOptions,
   outputDir: string,
   onProgress: (progress: EnhancedDownloadProgress) => void,
-  config: { maxRetries: number; retryDelayBase: number; timeout: number }
+  config: { maxRetries: number; retryDelayBase: number; timeout: number; attempt: number; signal: AbortSignal }
 ): Promise<void> {
   let lastError: Error | null = null
+  const attempts: DownloadAttempt[] = []
 
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+  // Downloads restored after a restart continue with the attempts they have left
+  for (let attempt = Math.min(config.attempt, config.maxRetries); attempt <= config.maxRetries; attempt++) {
+    let startedAt = Date.now()
     try {
       if (attempt > 0) {
         const delay = config.retryDelayBase * Math.pow(2, attempt - 1)
@@ -288,26 +495,68 @@ async function executeDownloadWithRetry(
           maxRetries: config.maxRetries,
         })
         await sleepWithJitter(delay)
+        startedAt = Date.now()
+
+        // Paused or cancelled while waiting
+        if (config.signal.aborted) {
+          throw new Error('Download cancelled')
+        }
+      }
+
+      // Each attempt is stopped when it stalls, and with the whole run when paused or cancelled,
+      // so a stalled attempt can't start yt-dlp on the files the next one continues
+      const attemptRun = new AbortController()
+      const stopAttempt = () => attemptRun.abort()
+      if (config.signal.aborted) stopAttempt()
+      config.signal.addEventListener('abort', stopAttempt)
+      try {
+        await withStallTimeout(
+          (onActivity) => executeDownload(id, url, options, outputDir, (progress) => {
+            onActivity()
+            onProgress(progress)
+          }, attemptRun.signal),
+          config.timeout,
+          'Download',
+          stopAttempt
+        )
+      } finally {
+        config.signal.removeEventListener('abort', stopAttempt)
       }
 
-      await withTimeout(
-        executeDownload(id, url, options, outputDir, onProgress),
-        config.timeout,
-        'Download'
-      )
+      // Finished, the partial files are no longer needed
+      await removeWorkspace(outputDir, id)
       return // Success
     } catch (error: any) {
       lastError = error
-      const classified = classifyError(error.message || String(error))
 
-      // Don't retry non-retryable errors
-      if (!classified.retryable) {
-        throw new Error(classified.userMessage)
+      // Stopped by pause or cancel, not a failure to retry
+      if (config.signal.aborted) {
+        throw error
       }
 
-      // If we've exhausted retries, throw with user-friendly message
-      if (attempt === config.maxRetries) {
-        throw new Error(classified.userMessage)
+      // Stream URLs in the cached info expired, the next download extracts fresh info
+      if (/HTTP Error 403/i.test(error.message || '')) {
+        await invalidateVideoInfo(url)
+      }
+      const rawError: string = error.message || String(error)
+      const classified = classifyError(rawError)
+      attempts.push({
+        attempt,
+        startedAt,
+        endedAt: Date.now(),
+        errorType: classified.type,
+        error: tailLines(rawError, 1),
+      })
+
+      // Don't retry non-retryable errors, and once retries are exhausted throw with
+      // user-friendly message
+      if (!classified.retryable || attempt === config.maxRetries) {
+        throw new DownloadError(classified.userMessage, {
+          errorType: classified.type,
+          retryable: classified.retryable,
+          attempts,
+          stderrTail: tailLines(rawError, STDERR_TAIL_LINES),
+        })
       }
     }
   }
@@ -315,24 +564,149 @@ async function executeDownloadWithRetry(
   throw lastError || new Error('Download failed after retries')
 }
 
-// Map quality option to bitrate
-function qualityToBitrate(quality: string): string {
-  switch (quality) {
-    case '320': return '320k'
-    case '256': return '256k'
-    case '192': return '192k'
-    case '128': return '128k'
-    default: return '192k'
+// Square-crop filter for cover art (centered, shortest side)
+const SQUARE_CROP_PPA =
+  'ThumbnailsConvertor+FFmpeg_o:-c:v mjpeg -qmin 1 -qscale:v 1 ' +
+  `-vf crop="'if(gt(ih,iw),iw,ih)':'if(gt(iw,ih),ih,iw)'"`
+
+// Build yt-dlp args that write tags and cover art from the video info
+function buildMetadataArgs(options: DownloadOptions, coverArt: CoverArtSupport): string[] {
+  const args = [
+    '--embed-metadata',
+    '--parse-metadata', 'uploader:%(meta_artist)s',
+    '--parse-metadata', 'upload_date:%(meta_date)s',
+    '--parse-metadata', 'webpage_url:%(meta_comment)s',
+  ]
+
+  if (options.playlist) {
+    // Entries are fetched one by one with --no-playlist, so yt-dlp has no playlist fields;
+    // seed the tags from any field and overwrite them with the known values
+    args.push(
+      '--parse-metadata', 'title:%(meta_album)s',
+      '--replace-in-metadata', 'meta_album', '^.*$', escapeReplacement(options.playlist.title),
+      '--parse-metadata', 'title:%(meta_track)s',
+      '--replace-in-metadata', 'meta_track', '^.*$', `${options.playlist.index}/${options.playlist.count}`,
+    )
+  } else {
+    args.push('--parse-metadata', '%(album,playlist_title,title)s:%(meta_album)s')
+  }
+
+  if (coverArt !== 'none') {
+    args.push('--embed-thumbnail', '--convert-thumbnails', 'jpg')
+    if (options.cropThumbnail) {
+      args.push('--postprocessor-args', SQUARE_CROP_PPA)
+    }
+  }
+
+  return args
+}
+
+// Literal text for a regex replacement (yt-dlp uses re.sub)
+function escapeReplacement(value: string): string {
+  return value.replace(/\\/g, '\\\\')
+}
+
+// Template fields for a download from its info JSON
+function getFilenameFields(info: any, options: DownloadOptions, extension: string): FilenameFields {
+  return {
+    title: info.title || 'Unknown',
+    id: info.id || '',
+    uploader: info.uploader || info.channel || undefined,
+    channel: info.channel || info.uploader || undefined,
+    upload_date: info.upload_date || undefined,
+    playlist: options.playlist?.title,
+    index: options.playlist?.index,
+    playlist_count: options.playlist?.count,
+    format: extension,
+  }
+}
+
+// Relative output path without extension
+function buildOutputName(
+  info: any,
+  options: DownloadOptions,
+  outputDir: string,
+  extension: string,
+  isClip: boolean
+): string {
+  const fields = getFilenameFields(info, options, extension)
+  const fallback = options.playlist ? DEFAULT_PLAYLIST_FILENAME_TEMPLATE : DEFAULT_FILENAME_TEMPLATE
+  // Keep clips from overwriting the full download or each other
+  const suffix = isClip ? ` [${formatClipLabel(options.startTime, options.endTime)}]` : ''
+
+  try {
+    return renderFilename(options.filenameTemplate || fallback, fields, { baseDir: outputDir, suffix })
+  } catch (error: any) {
+    // Templates are validated when saved, this only guards against stale settings
+    console.error('Filename template failed, using default:', error.message)
+    return renderFilename(fallback, fields, { baseDir: outputDir, suffix })
   }
 }
 
-// Core download execution
+// Chapter entry from the yt-dlp info JSON
+interface VideoChapter {
+  start_time: number
+  end_time: number
+  title?: string
+}
+
+// Restrict chapters to a clip range, re-based so the clip starts at 0
+function clipChapters(chapters: VideoChapter[], startTime?: number, endTime?: number): VideoChapter[] {
+  const start = startTime ?? 0
+  const end = endTime ?? Infinity
+
+  return chapters
+    .filter((chapter) => chapter.end_time > start && chapter.start_time < end)
+    .map((chapter) => ({
+      ...chapter,
+      start_time: Math.max(chapter.start_time, start) - start,
+      end_time: Math.min(chapter.end_time, end) - start,
+    }))
+}
+
+// Share of the progress bar given to each stage (sums to 100).
+// postprocess is yt-dlp's own work after the transfer: extracting audio, merging, embedding.
+function getProgressSplit(
+  adjustsSpeed: boolean,
+  normalizes: boolean,
+  splitsChapters: boolean
+): { download: number; postprocess: number; measure: number; encode: number; chapters: number } {
+  const postprocess = 5
+  const measure = normalizes ? 10 : 0
+  const encode = adjustsSpeed || normalizes ? 20 : 0
+  const chapters = splitsChapters ? 15 : 0
+  return { download: 100 - postprocess - measure - encode - chapters, postprocess, measure, encode, chapters }
+}
+
+// Times collected while a download runs, summarized into its history item
+interface TimingMarks {
+  startedAt: number
+  info: number
+  infoCached: boolean
+  transferStartedAt: number
+  transfer: number
+}
+
+function summarizeTimings(marks: TimingMarks): DownloadTimings {
+  const now = Date.now()
+  return {
+    total: now - marks.startedAt,
+    info: marks.info,
+    infoCached: marks.infoCached,
+    transfer: marks.transfer,
+    processing: Math.max(0, now - marks.transferStartedAt - marks.transfer),
+  }
+}
+
+// Core download execution. The signal fires when the download is paused or cancelled, nothing
+// new is started after that and running processes are stopped.
 async function executeDownload(
   id: string,
   url: string,
   options: DownloadOptions,
   outputDir: string,
-  onProgress: (progress: EnhancedDownloadProgress) => void
+  onProgress: (progress: EnhancedDownloadProgress) => void,
+  signal: AbortSignal
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     // Track if this download has been processed
@@ -340,279 +714,579 @@ async function executeDownload(
       reject(new Error('Download already processed'))
       return
     }
+    if (signal.aborted) {
+      reject(new Error('Download cancelled'))
+      return
+    }
+
+    const formatSpec = AUDIO_FORMATS[options.format]
+    const isVideo = options.mode === 'video'
+    const videoContainer = options.videoContainer || 'mp4'
+    const videoFormat = buildVideoFormatSelector(videoContainer, options.maxHeight || DEFAULT_VIDEO_HEIGHT)
+    const extension = isVideo ? VIDEO_CONTAINERS[videoContainer].extension : formatSpec.extension
 
     let hasCompleted = false
     const markComplete = (success: boolean = false) => {
       if (hasCompleted) return false
       hasCompleted = true
+      signal.removeEventListener('abort', onAbort)
       if (success) {
         processedDownloads.add(id)
       }
       return true
     }
 
-    // First, get video info with timeout
-    const infoArgs = [
-      '--dump-json',
-      '--no-download',
-      url,
-    ]
-
-    const infoProcess = spawn(YTDLP_PATH, infoArgs, {
-      env: {
-        ...process.env,
-        PATH: `${TUBERUN_DIR}${PATH_SEPARATOR}${process.env.PATH}`,
-      },
-    })
-
-    let infoOutput = ''
-    let infoError = ''
-    let videoTitle = 'Unknown'
-    let infoTimedOut = false
-    let safeTitle = 'download'
-
-    // Timeout for info fetch (30 seconds should be plenty for metadata)
-    const infoTimeout = setTimeout(() => {
-      infoTimedOut = true
-      infoProcess.kill(isWindows ? 'SIGKILL' : 'SIGTERM')
-    }, 30000)
+    // Stop whatever runs at the moment, e.g. the info lookup finishing later starts nothing
+    const onAbort = () => {
+      killDownloadProcesses(id)
+      getBandwidthManager().unregister(id)
+      if (markComplete()) {
+        reject(new Error('Download cancelled'))
+      }
+    }
+    signal.addEventListener('abort', onAbort)
 
-    infoProcess.stdout.on('data', (data) => {
-      infoOutput += data.toString()
-    })
+    // Checked before each step that starts a process or writes the result
+    const isStopped = () => signal.aborted || hasCompleted
 
-    infoProcess.stderr.on('data', (data) => {
-      // Cap error string to prevent memory issues
-      if (infoError.length < 10000) {
-        infoError += data.toString()
-      }
+    onProgress({
+      id,
+      status: 'downloading',
+      phase: 'fetching-info',
+      percent: 0,
     })
 
-    infoProcess.on('close', async (code) => {
-      clearTimeout(infoTimeout)
-
-      if (infoTimedOut) {
-        if (markComplete()) {
-          reject(new Error('Fetching video info timed out. Please try again.'))
-        }
-        return
-      }
-      if (code !== 0) {
-        if (markComplete()) {
-          const errorMsg = infoError || 'Failed to get video info'
-          reject(new Error(errorMsg))
-        }
-        return
-      }
+    let videoTitle = 'Unknown'
+    let safeTitle = 'download'
+    // Partial and intermediate files live in the download's own workspace
+    const workspace = getWorkspace(outputDir, id)
+    const tempBase = join(workspace, 'media')
+    // yt-dlp downloads from the info fetched here instead of extracting it again
+    const infoFile = join(workspace, 'info.json')
+    const timings: TimingMarks = { startedAt: Date.now(), info: 0, infoCached: false, transferStartedAt: 0, transfer: 0 }
+
+    loadVideoInfo(url).then(async ({ info, cached, fetchMs }) => {
+      timings.info = fetchMs
+      timings.infoCached = cached
+      if (isStopped()) return
 
       try {
-        const info = JSON.parse(infoOutput)
         videoTitle = info.title || 'Unknown'
+        const videoId: string | undefined = info.id || extractVideoId(url) || undefined
 
         onProgress({
           id,
           status: 'downloading',
+          phase: 'downloading',
           percent: 0,
           title: videoTitle,
         })
 
-        // Sanitize filename properly
-        safeTitle = sanitizeFilename(videoTitle)
-        const tempFile = join(outputDir, `${safeTitle}_temp.%(ext)s`)
-        const outputFile = join(outputDir, `${safeTitle}.mp3`)
-
-        // Build download args with optional rate limiting
-        const downloadArgs = [
-          '-f', 'bestaudio',
-          '-x',
-          '--audio-format', 'mp3',
-          '--audio-quality', options.quality === '320' ? '0' : options.quality === '256' ? '1' : options.quality === '192' ? '2' : '4',
-          '-o', tempFile,
-          '--progress',
-          '--newline',
-        ]
+        // Output name from the filename template, may include subfolders
+        const isClip = options.startTime !== undefined || options.endTime !== undefined
+        // The duration is only known now, a range past the end would cut nothing
+        const clipError = isClip ? getClipRangeError(options.startTime, options.endTime, info.duration) : null
+        if (clipError) {
+          if (markComplete()) {
+            reject(new Error(clipError))
+          }
+          return
+        }
+        safeTitle = buildOutputName(info, options, outputDir, extension, isClip)
+        mkdirSync(dirname(join(outputDir, safeTitle)), { recursive: true })
+        const tempFile = `${tempBase}.%(ext)s`
+        const outputFile = join(outputDir, `${safeTitle}.${extension}`)
+
+        // Chapters only matter when splitting, a single chapter is the whole video
+        const infoChapters: VideoChapter[] = Array.isArray(info.chapters)
+          ? clipChapters(info.chapters, options.startTime, options.endTime)
+          : []
+        const chapters = options.splitChapters && infoChapters.length > 1 ? infoChapters : []
+        const loudnessTarget = options.normalize && options.normalize !== 'off'
+          ? LOUDNESS_PRESETS[options.normalize]
+          : null
+        const pitch = options.pitch ?? 0
+        const changesTempo = options.speed !== 1 || pitch !== 0
+        const progressSplit = getProgressSplit(changesTempo, loudnessTarget !== null, chapters.length > 0)
+
+        // Chapter tracks go into a folder named like the file would be
+        const outputTarget = chapters.length > 0 ? join(outputDir, safeTitle) : outputFile
+
+        // Settle skip / ask before downloading anything; placement re-checks atomically at the end
+        const policy = options.collisionPolicy || DEFAULT_COLLISION_POLICY
+        let decision: CollisionDecision | null = policy === 'ask' ? null : policy
+        if (existsSync(outputTarget) && (policy === 'skip' || policy === 'ask')) {
+          decision = policy === 'ask'
+            ? await askCollision(id, outputTarget, videoTitle, onProgress)
+            : 'skip'
+          if (isStopped()) return
+
+          if (decision === 'skip') {
+            addToHistory({
+              id,
+              url,
+              videoId,
+              title: videoTitle,
+              outputPath: outputTarget,
+              mode: options.mode,
+              collision: 'skipped',
+            })
+            if (markComplete(true)) {
+              onProgress({
+                id,
+                status: 'complete',
+                percent: 100,
+                title: videoTitle,
+                outputPath: outputTarget,
+                collision: 'skipped',
+              })
+              resolve()
+            }
+            return
+          }
+        }
 
-        // Add rate limiting if specified
-        if (options.rateLimit && options.rateLimit > 0) {
-          downloadArgs.push('--limit-rate', `${options.rateLimit}K`)
+        // A clip is cut by ffmpeg and can't be continued, an interrupted one would look finished
+        if (isClip) {
+          await rm(workspace, { recursive: true, force: true })
         }
+        mkdirSync(workspace, { recursive: true })
+        await writeFile(infoFile, JSON.stringify(info))
+        if (isStopped()) return
+
+        // Video mode fetches separate video and audio streams that yt-dlp merges afterwards
+        // (the cached info resolves yt-dlp's default selection, which splits the same way)
+        const streamCount = isVideo && Array.isArray(info.requested_formats)
+          ? info.requested_formats.length
+          : 1
+
+        // Build download args, the rate limit is added per run
+        const downloadArgs: string[] = []
+        // Picked audio format the video no longer offers
+        let audioFallback: string | undefined
+
+        if (isVideo) {
+          downloadArgs.push(
+            '-f', videoFormat,
+            '--merge-output-format', videoContainer,
+          )
+          if (options.embedSubtitles) {
+            downloadArgs.push('--write-subs', '--embed-subs', '--sub-langs', 'all,-live_chat')
+          }
+        } else {
+          // The picked stream may be gone by now (e.g. info refreshed since the preview). The
+          // selector falls back to the best stream, history records that it did.
+          const source = options.audioSource
+          if (source?.kind === 'format' && !getAudioStreams(info).some((f) => f.formatId === source.formatId)) {
+            audioFallback = source.formatId
+          }
 
-        downloadArgs.push(url)
+          downloadArgs.push(
+            '-f', buildAudioFormatSelector(source),
+            '-x',
+            '--audio-format', formatSpec.ytdlpFormat,
+          )
 
-        const downloadProcess = spawn(YTDLP_PATH, downloadArgs, {
-          env: {
-            ...process.env,
-            PATH: `${TUBERUN_DIR}${PATH_SEPARATOR}${process.env.PATH}`,
-            FFMPEG_PATH: FFMPEG_PATH,
-          },
-        })
+          const audioQuality = qualityToYtdlpArg(options.format, options.quality)
+          if (audioQuality) {
+            downloadArgs.push('--audio-quality', audioQuality)
+          }
+        }
 
-        activeProcesses.set(id, downloadProcess)
+        if (options.embedMetadata) {
+          const coverArt = isVideo ? VIDEO_CONTAINERS[videoContainer].coverArt : formatSpec.coverArt
+          downloadArgs.push(...buildMetadataArgs(options, coverArt))
+        }
 
-        downloadProcess.stdout.on('data', (data) => {
-          const line = data.toString()
-          // Enhanced progress parsing: [download]  45.2% of 5.23MiB at 2.34MiB/s ETA 00:02
-          const progressMatch = line.match(
-            /(\d+(?:\.\d+)?)%(?:\s+of\s+[\d.]+\w+)?\s+at\s+([\d.]+\s*\w+\/s)(?:\s+ETA\s+(\d+:\d+))?/
-          )
+        downloadArgs.push(
+          '-o', tempFile,
+          '--no-playlist',
+          // Continue .part files left by an earlier attempt
+          '--continue',
+          '--part',
+          ...PROGRESS_TEMPLATE_ARGS,
+        )
+
+        // Only fetch the requested segment
+        if (isClip) {
+          downloadArgs.push('--download-sections', toDownloadSection(options.startTime, options.endTime))
+        }
 
-          if (progressMatch && progressMatch[1]) {
-            const percent = parseFloat(progressMatch[1])
-            const speed = progressMatch[2]?.trim() || undefined
-            const eta = progressMatch[3] || undefined
+        // Rate limit is this download's share of the bandwidth budget. yt-dlp is restarted
+        // when the share changes and continues from its .part files.
+        let restartRate: number | null = null
+        const initialRate = getBandwidthManager().register(id, options.rateLimit, (rate) => {
+          const running = activeProcesses.get(id)
+          if (running) {
+            restartRate = rate
+            running.kill(isWindows ? 'SIGKILL' : 'SIGTERM')
+          }
+        })
 
+        // Streams seen so far, each file yt-dlp reports on is a stream (subtitle files are not counted).
+        // Kept across restarts, a finished stream is reported again as finished.
+        const streamFiles: string[] = []
+        const onOutputLine = (line: string) => {
+          const progress = parseProgressLine(line)
+          if (!progress) return
+
+          if (progress.type === 'postprocess') {
+            if (progress.status !== 'started') return
+
+            // Post-processing uses no bandwidth, the share goes to the other downloads
+            getBandwidthManager().unregister(id)
             onProgress({
               id,
-              status: 'downloading',
-              percent: options.speed !== 1 ? percent * 0.7 : percent,
-              speed: speed,
-              eta: eta,
+              status: 'converting',
+              phase: POSTPROCESSOR_PHASES[progress.postprocessor] || 'post-processing',
+              percent: progressSplit.download,
               title: videoTitle,
             })
-          } else {
-            // Fallback: just parse percent
-            const percentMatch = line.match(/(\d+(?:\.\d+)?)%/)
-            if (percentMatch && percentMatch[1]) {
-              const percent = parseFloat(percentMatch[1])
-              onProgress({
-                id,
-                status: 'downloading',
-                percent: options.speed !== 1 ? percent * 0.7 : percent,
-                title: videoTitle,
-              })
-            }
+            return
           }
-        })
+
+          const filename = progress.filename
+          if (!filename || SUBTITLE_FILE_PATTERN.test(filename)) return
+          if (!streamFiles.includes(filename)) {
+            streamFiles.push(filename)
+          }
+          const streamIndex = Math.min(streamFiles.indexOf(filename), streamCount - 1)
+
+          const { downloadedBytes, totalBytes, speedBps, etaSeconds } = progress
+          const phasePercent = progress.status === 'finished'
+            ? 100
+            : downloadedBytes !== undefined && totalBytes ? Math.min(100, downloadedBytes / totalBytes * 100) : 0
+
+          onProgress({
+            id,
+            status: 'downloading',
+            phase: 'downloading',
+            percent: ((streamIndex + phasePercent / 100) / streamCount) * progressSplit.download,
+            speed: speedBps !== undefined ? formatSpeed(speedBps) : undefined,
+            speedBps,
+            eta: etaSeconds !== undefined ? formatEta(etaSeconds) : undefined,
+            etaSeconds,
+            downloadedBytes,
+            totalBytes,
+            title: videoTitle,
+            ...(streamCount > 1 ? { streamIndex: streamIndex + 1, streamCount } : {}),
+          })
+        }
 
         let downloadError = ''
-        downloadProcess.stderr.on('data', (data) => {
+        const onStderr = (data: Buffer) => {
           // Cap error string to prevent memory issues
           if (downloadError.length < 10000) {
             downloadError += data.toString()
           }
-        })
+        }
 
-        downloadProcess.on('close', async (downloadCode) => {
-          activeProcesses.delete(id)
+        // Forget this run's yt-dlp process and bandwidth share, unless a newer run owns the id
+        const releaseTransfer = (downloadProcess: ChildProcess) => {
+          if (activeProcesses.get(id) === downloadProcess) {
+            activeProcesses.delete(id)
+            getBandwidthManager().unregister(id)
+          }
+        }
+
+        const onClose = async (downloadCode: number | null, downloadProcess: ChildProcess) => {
+          // A paused run's process may close after a resume started the next run, whose process
+          // and bandwidth share then use the same id
+          if (isStopped()) return
+          releaseTransfer(downloadProcess)
+          timings.transfer = Date.now() - timings.transferStartedAt
 
+          // Partial files stay in the workspace for the next attempt
           if (downloadCode !== 0) {
             if (markComplete()) {
-              await cleanupTempFiles(outputDir, safeTitle)
               reject(new Error(downloadError || 'Download failed'))
             }
             return
           }
 
           // Find the downloaded file
-          const downloadedFile = join(outputDir, `${safeTitle}_temp.mp3`)
+          const downloadedFile = `${tempBase}.${extension}`
+          // Encodes write next to the download, the result is moved into place afterwards
+          let finishedFile = downloadedFile
 
-          // If speed adjustment is needed, use ffmpeg
-          if (options.speed !== 1 && existsSync(downloadedFile)) {
-            onProgress({
-              id,
-              status: 'converting',
-              percent: 70,
-              title: videoTitle,
-            })
+          // If speed adjustment or normalization is needed, use ffmpeg
+          if ((changesTempo || loudnessTarget) && existsSync(downloadedFile)) {
+            const measureStart = progressSplit.download + progressSplit.postprocess
+            const encodeStart = measureStart + progressSplit.measure
+            const encodePhase = changesTempo ? 'speed-adjust' : 'normalizing'
 
             try {
-              await adjustSpeed(
-                id,
-                downloadedFile,
-                outputFile,
-                options.speed,
-                options.quality,
-                (percent) => {
+              // Analysis pass for two-pass loudnorm; the correction is applied in the same encode as the tempo change
+              let extraFilters: string[] = []
+              if (loudnessTarget) {
+                onProgress({
+                  id,
+                  status: 'converting',
+                  phase: 'analyzing-loudness',
+                  percent: measureStart,
+                  title: videoTitle,
+                })
+
+                if (isStopped()) return
+                const measured = await measureLoudness(id, downloadedFile, loudnessTarget, (percent) => {
                   onProgress({
                     id,
                     status: 'converting',
-                    percent: 70 + percent * 0.3,
+                    phase: 'analyzing-loudness',
+                    percent: measureStart + percent * progressSplit.measure / 100,
                     title: videoTitle,
                   })
-                }
-              )
-
-              // Remove temp file
-              await unlink(downloadedFile)
+                })
+                extraFilters = buildNormalizeFilters(loudnessTarget, measured)
+              }
 
-              // Add to history
-              addToHistory({
+              if (isStopped()) return
+              onProgress({
                 id,
-                url,
+                status: 'converting',
+                phase: encodePhase,
+                percent: encodeStart,
                 title: videoTitle,
-                outputPath: outputFile,
               })
 
-              if (markComplete(true)) {
+              const onEncodeProgress = (percent: number) => {
                 onProgress({
                   id,
-                  status: 'complete',
-                  percent: 100,
+                  status: 'converting',
+                  phase: encodePhase,
+                  percent: encodeStart + percent * progressSplit.encode / 100,
                   title: videoTitle,
-                  outputPath: outputFile,
                 })
-                resolve()
               }
+
+              if (isVideo) {
+                await adjustVideoSpeed(
+                  id,
+                  downloadedFile,
+                  `${tempBase}_out.${extension}`,
+                  options.speed,
+                  pitch,
+                  videoContainer,
+                  options.embedSubtitles === true,
+                  onEncodeProgress,
+                  extraFilters
+                )
+              } else {
+                await adjustSpeed(
+                  id,
+                  downloadedFile,
+                  `${tempBase}_out.${extension}`,
+                  options.speed,
+                  pitch,
+                  options.format,
+                  options.quality,
+                  onEncodeProgress,
+                  extraFilters
+                )
+              }
+
+              // Remove temp file
+              await unlink(downloadedFile)
+              finishedFile = `${tempBase}_out.${extension}`
             } catch (err: any) {
               if (markComplete()) {
-                // Clean up temp files on failure
-                await cleanupTempFiles(outputDir, safeTitle)
-                reject(new Error(`Speed adjustment failed: ${err.message}`))
+                // Keep the download, only the encode starts over
+                await unlink(`${tempBase}_out.${extension}`).catch(() => {})
+                const step = changesTempo ? 'Speed adjustment' : 'Loudness normalization'
+                reject(new Error(`${step} failed: ${err.message}`))
               }
+              return
             }
-          } else {
-            // Rename temp file to final
-            if (existsSync(downloadedFile)) {
-              const { rename } = await import('fs/promises')
-              try {
-                await rename(downloadedFile, outputFile)
-              } catch (err: any) {
-                if (markComplete()) {
-                  reject(new Error(`Failed to save file: ${err.message}`))
-                }
-                return
-              }
+          }
+
+          if (!existsSync(finishedFile)) {
+            if (markComplete()) {
+              reject(new Error('Downloaded file not found'))
             }
+            return
+          }
+
+          // Apply the collision policy, asking now if the name was taken during the download
+          if (isStopped()) return
+          let placement: { path: string; outcome?: CollisionOutcome }
+          try {
+            const finalDecision = decision ?? (existsSync(outputTarget)
+              ? await askCollision(id, outputTarget, videoTitle, onProgress)
+              : 'rename')
+            placement = chapters.length > 0
+              ? await placeDirectory(outputTarget, finalDecision)
+              : await placeFile(finishedFile, outputTarget, finalDecision)
+          } catch (err: any) {
+            if (markComplete()) {
+              reject(new Error(`Failed to save file: ${err.message}`))
+            }
+            return
+          }
 
-            // Add to history
+          if (placement.outcome === 'skipped') {
             addToHistory({
               id,
               url,
+              videoId,
               title: videoTitle,
-              outputPath: outputFile,
+              outputPath: placement.path,
+              mode: options.mode,
+              collision: 'skipped',
             })
-
             if (markComplete(true)) {
               onProgress({
                 id,
                 status: 'complete',
                 percent: 100,
                 title: videoTitle,
-                outputPath: outputFile,
+                outputPath: placement.path,
+                collision: 'skipped',
               })
               resolve()
             }
+            return
           }
-        })
 
-        downloadProcess.on('error', async (err) => {
-          activeProcesses.delete(id)
-          if (markComplete()) {
-            await cleanupTempFiles(outputDir, safeTitle)
-            reject(new Error(`Download process error: ${err.message}`))
+          // Sidecars follow the name that was actually written ("title (2).en.srt")
+          const finalBase = chapters.length > 0
+            ? placement.path
+            : placement.path.slice(0, placement.path.length - extension.length - 1)
+
+          // Split into one file per chapter, the full-length file is only an intermediate
+          let tracks: string[] = []
+          if (chapters.length > 0) {
+            const startPercent = 100 - progressSplit.chapters
+            if (isStopped()) return
+            try {
+              tracks = await splitChapters(
+                id,
+                finishedFile,
+                placement.path,
+                chapters,
+                options.speed,
+                videoTitle,
+                (trackIndex, trackCount) => {
+                  onProgress({
+                    id,
+                    status: 'converting',
+                    phase: 'splitting',
+                    percent: startPercent + (trackIndex / trackCount) * progressSplit.chapters,
+                    title: videoTitle,
+                    trackIndex: Math.min(trackIndex + 1, trackCount),
+                    trackCount,
+                  })
+                }
+              )
+              await unlink(finishedFile)
+            } catch (err: any) {
+              if (markComplete()) {
+                reject(new Error(`Chapter split failed: ${err.message}`))
+              }
+              return
+            }
           }
-        })
+
+          // Caption sidecars are best-effort, a missing track never fails the download
+          let sidecars: string[] = []
+          if (options.subtitleLanguage && options.subtitleFormats?.length) {
+            onProgress({
+              id,
+              status: 'converting',
+              phase: 'subtitles',
+              percent: 99,
+              title: videoTitle,
+            })
+            sidecars = await saveCaptionSidecars(info, options, finalBase, videoTitle)
+          }
+
+          // First track stands in for the whole download when split
+          const finalPath = tracks[0] || placement.path
+          if (isStopped()) return
+
+          // Add to history
+          addToHistory({
+            id,
+            url,
+            videoId,
+            optionsKey: buildOptionsKey(options),
+            title: videoTitle,
+            outputPath: finalPath,
+            trackCount: tracks.length || undefined,
+            startTime: options.startTime,
+            endTime: options.endTime,
+            speed: options.speed !== 1 ? options.speed : undefined,
+            pitch: pitch !== 0 ? pitch : undefined,
+            mode: options.mode,
+            maxHeight: isVideo ? options.maxHeight || DEFAULT_VIDEO_HEIGHT : undefined,
+            sidecars: sidecars.length > 0 ? sidecars : undefined,
+            collision: placement.outcome,
+            timings: summarizeTimings(timings),
+            audioFallback,
+          })
+
+          if (markComplete(true)) {
+            onProgress({
+              id,
+              status: 'complete',
+              percent: 100,
+              title: videoTitle,
+              outputPath: finalPath,
+              trackCount: tracks.length || undefined,
+              collision: placement.outcome,
+            })
+            resolve()
+          }
+        }
+
+        const spawnTransfer = (rate: number) => {
+          const downloadProcess = spawn(getYtdlpPath(), [
+            ...downloadArgs,
+            ...(rate > 0 ? ['--limit-rate', `${rate}K`] : []),
+            ...getCookieArgs(),
+            '--load-info-json', infoFile,
+          ], {
+            env: {
+              ...process.env,
+              PATH: `${getTuberunDir()}${PATH_SEPARATOR}${process.env.PATH}`,
+              FFMPEG_PATH: getFfmpegPath(),
+            },
+          })
+
+          activeProcesses.set(id, downloadProcess)
+          downloadProcess.stdout.on('data', createLineBuffer(onOutputLine))
+          downloadProcess.stderr.on('data', onStderr)
+
+          downloadProcess.on('close', (downloadCode) => {
+            // Stopped for a new share, unless it was cancelled or paused in the meantime
+            if (restartRate !== null && activeProcesses.get(id) === downloadProcess && !signal.aborted) {
+              const nextRate = restartRate
+              restartRate = null
+              downloadError = ''
+              spawnTransfer(nextRate)
+              return
+            }
+            onClose(downloadCode, downloadProcess)
+          })
+
+          downloadProcess.on('error', async (err) => {
+            if (isStopped()) return
+            releaseTransfer(downloadProcess)
+            if (markComplete()) {
+              reject(new Error(`Download process error: ${err.message}`))
+            }
+          })
+        }
+
+        timings.transferStartedAt = Date.now()
+        spawnTransfer(initialRate)
       } catch (err: any) {
         if (markComplete()) {
-          reject(new Error(`Failed to parse video info: ${err.message}`))
+          reject(new Error(`Failed to start download: ${err.message}`))
         }
       }
-    })
-
-    infoProcess.on('error', (err) => {
-      clearTimeout(infoTimeout)
+    }, (err: Error) => {
       if (markComplete()) {
-        reject(new Error(`Failed to start yt-dlp: ${err.message}`))
+        reject(err)
       }
     })
   })
@@ -623,30 +1297,38 @@ function adjustSpeed(
   inputFile: string,
   outputFile: string,
   speed: number,
+  pitch: number,
+  format: AudioFormat,
   quality: string,
-  onProgress: (percent: number) => void
+  onProgress: (percent: number) => void,
+  extraFilters: string[] = []
 ): Promise<void> {
   return new Promise((resolve, reject) => {
-    // Calculate atempo value (ffmpeg atempo accepts 0.5 to 2.0)
-    // For speeds > 2, we need to chain multiple atempo filters
-    const atempoFilters: string[] = []
-    let remainingSpeed = speed
-
-    while (remainingSpeed > 2.0) {
-      atempoFilters.push('atempo=2.0')
-      remainingSpeed /= 2.0
-    }
-    if (remainingSpeed > 0.5) {
-      atempoFilters.push(`atempo=${remainingSpeed}`)
-    }
-
-    const filterString = atempoFilters.join(',')
+    const filterString = [...buildTempoFilters(speed, pitch), ...extraFilters].join(',')
 
     let duration = 0
 
     const command = ffmpeg(inputFile)
       .audioFilters(filterString)
-      .audioBitrate(qualityToBitrate(quality))
+      .audioCodec(AUDIO_FORMATS[format].codec)
+
+    // Lossless codecs have no target bitrate
+    const bitrate = qualityToBitrate(format, quality)
+    if (bitrate) {
+      command.audioBitrate(bitrate)
+    }
+
+    // Carry tags (and cover art where the container allows it) through the re-encode
+    const outputOptions = ['-map', '0:a', '-map_metadata', '0']
+    if (AUDIO_FORMATS[format].coverArt === 'stream') {
+      outputOptions.push('-map', '0:v?', '-c:v', 'copy', '-disposition:v', 'attached_pic')
+    }
+    if (format === 'mp3') {
+      outputOptions.push('-id3v2_version', '3')
+    }
+    command.outputOptions(outputOptions)
+
+    command
       .on('codecData', (data) => {
         // Parse duration with validation
         if (data.duration) {
@@ -676,6 +1358,258 @@ function adjustSpeed(
   })
 }
 
+// Fetch the requested caption track and write it in each requested format
+async function saveCaptionSidecars(
+  info: any,
+  options: DownloadOptions,
+  basePath: string,
+  title: string
+): Promise<string[]> {
+  if (!options.subtitleLanguage || !options.subtitleFormats) return []
+
+  const selection = selectCaptionTrack(info, options.subtitleLanguage, options.autoSubtitles !== false)
+  if (!selection) {
+    console.warn(`No ${options.subtitleLanguage} captions available for ${title}`)
+    return []
+  }
+
+  try {
+    const vttText = await fetchCaptionText(selection.url)
+    return await writeSidecars(
+      basePath,
+      selection.language,
+      vttText,
+      options.subtitleFormats,
+      { speed: options.speed, clipStart: options.startTime, clipEnd: options.endTime },
+      title
+    )
+  } catch (error) {
+    console.error('Failed to save captions:', error)
+    return []
+  }
+}
+
+// Re-encode a video at a different speed: setpts for the picture, atempo (and optional
+// pitch/loudness filters) for the sound. Subtitles are read from a second, time-scaled
+// input so they stay in sync with the new timeline.
+function adjustVideoSpeed(
+  id: string,
+  inputFile: string,
+  outputFile: string,
+  speed: number,
+  pitch: number,
+  container: VideoContainer,
+  keepSubtitles: boolean,
+  onProgress: (percent: number) => void,
+  extraFilters: string[] = []
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const audioFilters = [...buildTempoFilters(speed, pitch), ...extraFilters]
+    let duration = 0
+
+    const command = ffmpeg(inputFile)
+    const outputOptions = ['-map', '0:v:0', '-map', '0:a', '-map_metadata', '0']
+
+    if (speed !== 1) {
+      command
+        .videoFilters(`setpts=PTS/${speed}`)
+        .videoCodec('libx264')
+      outputOptions.push('-preset', 'veryfast', '-crf', '20')
+    } else {
+      // Only the sound changes, keep the picture untouched
+      command.videoCodec('copy')
+    }
+
+    if (keepSubtitles) {
+      command.input(inputFile).inputOptions(['-itsscale', String(1 / speed)])
+      outputOptions.push('-map', '1:s?', '-c:s', container === 'mp4' ? 'mov_text' : 'copy')
+    }
+
+    if (container === 'mp4') {
+      outputOptions.push('-movflags', '+faststart')
+    }
+
+    if (audioFilters.length > 0) {
+      command.audioFilters(audioFilters.join(','))
+    }
+
+    command
+      .audioCodec(VIDEO_CONTAINERS[container].audioCodec)
+      .audioBitrate('192k')
+      .outputOptions(outputOptions)
+      .on('codecData', (data) => {
+        if (data.duration) {
+          duration = parseDuration(data.duration) / speed
+        }
+      })
+      .on('progress', (progress) => {
+        if (duration > 0 && progress.timemark) {
+          const currentTime = parseTimemark(progress.timemark)
+          onProgress(Math.min((currentTime / duration) * 100, 100))
+        }
+      })
+      .on('end', () => {
+        activeFFmpegCommands.delete(id)
+        resolve()
+      })
+      .on('error', (err) => {
+        activeFFmpegCommands.delete(id)
+        reject(err)
+      })
+
+    // Track FFmpeg command for cancellation
+    activeFFmpegCommands.set(id, command)
+
+    command.save(outputFile)
+  })
+}
+
+// Build the filter chain for a tempo change and an independent pitch shift
+function buildTempoFilters(speed: number, pitch: number): string[] {
+  const filters: string[] = []
+  let tempo = speed
+
+  // Pitch shift: resampling at a different rate changes pitch and tempo together,
+  // the tempo part is then undone by atempo. Normalize to a known rate first.
+  if (pitch !== 0) {
+    const ratio = Math.pow(2, pitch / 12)
+    filters.push(
+      `aresample=${PITCH_SAMPLE_RATE}`,
+      `asetrate=${Math.round(PITCH_SAMPLE_RATE * ratio)}`,
+      `aresample=${PITCH_SAMPLE_RATE}`
+    )
+    tempo /= ratio
+  }
+
+  // ffmpeg atempo accepts 0.5 to 2.0 per instance, chain for anything outside
+  while (tempo > 2.0) {
+    filters.push('atempo=2.0')
+    tempo /= 2.0
+  }
+  while (tempo < 0.5) {
+    filters.push('atempo=0.5')
+    tempo /= 0.5
+  }
+  if (Math.abs(tempo - 1) > 1e-6) {
+    filters.push(`atempo=${tempo.toFixed(6)}`)
+  }
+
+  return filters
+}
+
+// First loudnorm pass: measure the input without writing any output
+function measureLoudness(
+  id: string,
+  inputFile: string,
+  target: LoudnessTarget,
+  onProgress: (percent: number) => void
+): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    let duration = 0
+
+    const command = ffmpeg(inputFile)
+      .noVideo()
+      .audioFilters(buildMeasureFilter(target))
+      .format('null')
+      .on('codecData', (data) => {
+        if (data.duration) {
+          duration = parseDuration(data.duration)
+        }
+      })
+      .on('progress', (progress) => {
+        if (duration > 0 && progress.timemark) {
+          const currentTime = parseTimemark(progress.timemark)
+          onProgress(Math.min((currentTime / duration) * 100, 100))
+        }
+      })
+      .on('end', (_stdout: string | null, stderr: string | null) => {
+        activeFFmpegCommands.delete(id)
+        try {
+          resolve(parseMeasurement(stderr || ''))
+        } catch (err) {
+          reject(err)
+        }
+      })
+      .on('error', (err) => {
+        activeFFmpegCommands.delete(id)
+        reject(err)
+      })
+
+    // Track FFmpeg command for cancellation
+    activeFFmpegCommands.set(id, command)
+
+    command.save(isWindows ? 'NUL' : '/dev/null')
+  })
+}
+
+// Cut a file into per-chapter tracks (stream copy, no re-encode)
+async function splitChapters(
+  id: string,
+  inputFile: string,
+  trackDir: string,
+  chapters: VideoChapter[],
+  speed: number,
+  album: string,
+  onTrack: (trackIndex: number, trackCount: number) => void
+): Promise<string[]> {
+  if (!existsSync(trackDir)) {
+    mkdirSync(trackDir, { recursive: true })
+  }
+
+  const extension = extname(inputFile)
+  const tracks: string[] = []
+
+  for (let i = 0; i < chapters.length; i++) {
+    onTrack(i, chapters.length)
+
+    const chapter = chapters[i]
+    const chapterTitle = chapter.title || `Chapter ${i + 1}`
+    const trackName = renderFilename(
+      '{index} - {title}',
+      { title: chapterTitle, id: '', index: i + 1, playlist_count: chapters.length },
+      { baseDir: trackDir }
+    )
+    const trackFile = join(trackDir, `${trackName}${extension}`)
+
+    // Chapter times refer to the original video, scale them to the adjusted tempo
+    const start = chapter.start_time / speed
+    const duration = (chapter.end_time - chapter.start_time) / speed
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(inputFile)
+        .setStartTime(start)
+        .setDuration(duration)
+        .outputOptions([
+          '-map', '0:a',
+          '-map', '0:v?',
+          '-c', 'copy',
+          '-map_metadata', '0',
+          '-metadata', `title=${chapterTitle}`,
+          '-metadata', `album=${album}`,
+          '-metadata', `track=${i + 1}/${chapters.length}`,
+        ])
+        .on('end', () => {
+          activeFFmpegCommands.delete(id)
+          resolve()
+        })
+        .on('error', (err) => {
+          activeFFmpegCommands.delete(id)
+          reject(err)
+        })
+
+      // Track FFmpeg command for cancellation
+      activeFFmpegCommands.set(id, command)
+
+      command.save(trackFile)
+    })
+
+    tracks.push(trackFile)
+  }
+
+  onTrack(chapters.length, chapters.length)
+  return tracks
+}
+
 // Parse duration string with validation
 function parseDuration(duration: string): number {
   if (!duration || typeof duration !== 'string') {
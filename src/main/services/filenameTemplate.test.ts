@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { renderFilename, sanitizePathSegment, validateTemplate, type FilenameFields } from './filenameTemplate'
+
+const fields: FilenameFields = {
+  title: 'Intro',
+  id: 'abc123',
+  uploader: 'Some Band',
+  upload_date: '20091025',
+  playlist: 'Live Set',
+  index: 3,
+}
+
+describe('renderFilename', () => {
+  it('creates subfolders from "/" in the template', () => {
+    expect(renderFilename('{uploader}/{playlist}/{title}', fields, { platform: 'linux' })).toBe('Some Band/Live Set/Intro')
+    expect(renderFilename('{uploader}/{title}', fields, { platform: 'win32' })).toBe('Some Band\\Intro')
+  })
+
+  it('keeps separators inside values out of the folder structure', () => {
+    expect(renderFilename('{title}', { ...fields, title: 'AC/DC \\ Live' }, { platform: 'linux' })).toBe('AC_DC _ Live')
+  })
+
+  it('drops folders of missing fields', () => {
+    expect(renderFilename('{playlist}/{title}', { title: 'Intro', id: 'abc123' }, { platform: 'linux' })).toBe('Intro')
+  })
+
+  it('pads the index', () => {
+    expect(renderFilename('{index:02} {title}', fields, { platform: 'linux' })).toBe('03 Intro')
+    expect(renderFilename('{index:3}-{title}', fields, { platform: 'linux' })).toBe('3-Intro')
+    // Without a spec it is padded to the playlist size
+    expect(renderFilename('{index} {title}', { ...fields, playlist_count: 120 }, { platform: 'linux' })).toBe('003 Intro')
+  })
+
+  it('formats the upload date', () => {
+    expect(renderFilename('{upload_date:%Y}/{title}', fields, { platform: 'linux' })).toBe('2009/Intro')
+    expect(renderFilename('{upload_date:%y-%m-%d} {title}', fields, { platform: 'linux' })).toBe('09-10-25 Intro')
+  })
+
+  it('keeps the first characters of a cut field', () => {
+    expect(renderFilename('{uploader:.4}', fields, { platform: 'linux' })).toBe('Some')
+  })
+
+  it('falls back to the title when the template renders nothing', () => {
+    expect(renderFilename('{playlist}', { title: 'Intro', id: 'abc123' }, { platform: 'linux' })).toBe('Intro')
+  })
+
+  it('appends the suffix after truncation', () => {
+    expect(renderFilename('{title}', fields, { platform: 'linux', suffix: ' [0_10-0_20]' })).toBe('Intro [0_10-0_20]')
+  })
+
+  it('cuts a long filename at character boundaries', () => {
+    const name = renderFilename('{title}', { ...fields, title: '€'.repeat(100) }, { platform: 'linux' })
+    expect(Buffer.byteLength(name, 'utf-8')).toBeLessThanOrEqual(255 - 32)
+    expect(name).toBe('€'.repeat(74))
+  })
+
+  it('shortens the filename, then the longest folder, to fit the Windows path limit', () => {
+    const baseDir = 'C:\\' + 'd'.repeat(147)
+    const path = renderFilename(
+      '{playlist}/{title}',
+      { ...fields, playlist: 'p'.repeat(100), title: 't'.repeat(100) },
+      { platform: 'win32', baseDir }
+    )
+    expect(path).toBe('p'.repeat(59) + '\\' + 't'.repeat(16))
+    expect(baseDir.length + 1 + path.length + 32).toBeLessThanOrEqual(259)
+  })
+
+  it('fails when even the shortest names do not fit', () => {
+    expect(() =>
+      renderFilename('{playlist}/{title}', { ...fields, title: 't'.repeat(100) }, { platform: 'win32', baseDir: 'C:\\' + 'd'.repeat(240) })
+    ).toThrow('The download folder path is too long for this system')
+  })
+})
+
+describe('sanitizePathSegment', () => {
+  it('prefixes Windows reserved names', () => {
+    expect(sanitizePathSegment('CON', 'win32')).toBe('_CON')
+    expect(sanitizePathSegment('com1.txt', 'win32')).toBe('_com1.txt')
+    expect(sanitizePathSegment('CONCERT', 'win32')).toBe('CONCERT')
+    expect(sanitizePathSegment('CON', 'linux')).toBe('CON')
+  })
+
+  it('replaces characters the platform does not allow', () => {
+    expect(sanitizePathSegment('Q&A: Part <1>', 'win32')).toBe('Q&A_ Part _1')
+    expect(sanitizePathSegment('Q&A: Part 1', 'darwin')).toBe('Q&A_ Part 1')
+    expect(sanitizePathSegment('Q&A: Part 1', 'linux')).toBe('Q&A: Part 1')
+  })
+
+  it('removes trailing dots on Windows and leading dots everywhere', () => {
+    expect(sanitizePathSegment('Wait...', 'win32')).toBe('Wait')
+    expect(sanitizePathSegment('Wait...', 'linux')).toBe('Wait...')
+    expect(sanitizePathSegment('.hidden', 'linux')).toBe('hidden')
+    expect(sanitizePathSegment('..', 'linux')).toBe('')
+  })
+
+  it('collapses whitespace and strips control characters', () => {
+    expect(sanitizePathSegment('  a \t\n b\x07 ', 'linux')).toBe('a b')
+  })
+})
+
+describe('validateTemplate', () => {
+  it('accepts a usable template', () => {
+    expect(validateTemplate('{playlist}/{index:02} {title} [{id}]')).toBeNull()
+  })
+
+  it('describes what is wrong', () => {
+    expect(validateTemplate('')).toBe('Template is empty')
+    expect(validateTemplate('{title')).toBe('Unmatched "{" or "}" in template')
+    expect(validateTemplate('{name}')).toBe('Unknown field {name}')
+    expect(validateTemplate('{title:%Y}')).toBe('{title} is not a date')
+    expect(validateTemplate('{index:x}')).toBe('Invalid format "x" for {index}')
+    expect(validateTemplate(42)).toBe('Template must be text')
+  })
+})
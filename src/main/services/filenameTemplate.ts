@@ -0,0 +1,273 @@
+// Output filename templates such as "{uploader} - {title} [{id}]" or "{playlist}/{index:02} {title}".
+// "/" in a template creates subfolders; values never do, separators inside titles are replaced.
+
+export interface FilenameFields {
+  title: string
+  id: string
+  uploader?: string
+  channel?: string
+  upload_date?: string // YYYYMMDD as in the yt-dlp info JSON
+  playlist?: string
+  index?: number
+  playlist_count?: number
+  format?: string
+}
+
+export const TEMPLATE_FIELDS: (keyof FilenameFields)[] = [
+  'title',
+  'id',
+  'uploader',
+  'channel',
+  'upload_date',
+  'playlist',
+  'index',
+  'playlist_count',
+  'format',
+]
+
+export const DEFAULT_FILENAME_TEMPLATE = '{title}'
+export const DEFAULT_PLAYLIST_FILENAME_TEMPLATE = '{playlist}/{index} {title}'
+
+// Used for the settings preview
+export const SAMPLE_FILENAME_FIELDS: FilenameFields = {
+  title: 'Never Gonna Give You Up (Official Music Video)',
+  id: 'dQw4w9WgXcQ',
+  uploader: 'Rick Astley',
+  channel: 'Rick Astley',
+  upload_date: '20091025',
+  playlist: '80s Classics',
+  index: 7,
+  playlist_count: 42,
+  format: 'mp3',
+}
+
+const MAX_TEMPLATE_LENGTH = 200
+
+// Room left after the rendered name for extensions, numbering ("name (2).mp3")
+// and caption sidecars ("name.en-US.srt")
+const DEFAULT_RESERVE = 32
+
+// A truncated filename keeps at least this many characters before folders are shortened
+const MIN_NAME_LENGTH = 16
+
+const WINDOWS_RESERVED_NAMES = /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])$/i
+
+// {field} or {field:spec}
+const FIELD_PATTERN = /\{([a-z_]+)(?::([^{}]*))?\}/g
+
+interface RenderOptions {
+  // Folder the name is created in, counted towards the path length limit
+  baseDir?: string
+  // Appended to the filename after truncation (e.g. a clip range label)
+  suffix?: string
+  reserve?: number
+  platform?: NodeJS.Platform
+}
+
+// NTFS counts UTF-16 units, the others count bytes
+function measure(value: string, platform: NodeJS.Platform): number {
+  return platform === 'win32' ? value.length : Buffer.byteLength(value, 'utf-8')
+}
+
+// Longest whole path the platform accepts (Windows without long path support)
+function maxPathLength(platform: NodeJS.Platform): number {
+  if (platform === 'win32') return 259
+  if (platform === 'darwin') return 1023
+  return 4095
+}
+
+const MAX_SEGMENT_LENGTH = 255
+
+// Cut at code point boundaries so surrogate pairs and multi-byte characters stay intact
+function truncate(value: string, maxLength: number, platform: NodeJS.Platform): string {
+  if (measure(value, platform) <= maxLength) return value
+
+  let result = ''
+  let length = 0
+  for (const char of Array.from(value)) {
+    const charLength = measure(char, platform)
+    if (length + charLength > maxLength) break
+    result += char
+    length += charLength
+  }
+  return result
+}
+
+// Make a single path component safe for the target platform
+export function sanitizePathSegment(value: string, platform: NodeJS.Platform = process.platform): string {
+  let safe = value
+    .replace(/[\x00-\x1f\x7f]/g, '')
+    .replace(/[/\\]/g, '_')
+
+  if (platform === 'win32') {
+    safe = safe.replace(/[<>:"|?*]/g, '_')
+  } else if (platform === 'darwin') {
+    // Finder shows ":" as "/"
+    safe = safe.replace(/:/g, '_')
+  }
+
+  // Collapse whitespace, drop separators left over from empty fields and leading dots
+  // (hidden files, "." and "..")
+  safe = safe
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-_,.]+|[\s\-_,]+$/g, '')
+
+  return finishSegment(safe, platform)
+}
+
+// Rules that must hold again after truncation
+function finishSegment(segment: string, platform: NodeJS.Platform): string {
+  let safe = segment.trim()
+  if (platform === 'win32') {
+    // Remove trailing dots and spaces (Windows issue)
+    safe = safe.replace(/[. ]+$/, '')
+    if (WINDOWS_RESERVED_NAMES.test(safe.split('.')[0])) {
+      safe = '_' + safe
+    }
+  }
+  return safe
+}
+
+function formatDate(value: string, spec: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (!match) return value
+
+  const [, year, month, day] = match
+  return spec.replace(/%([Ymdy%])/g, (_, directive: string) => {
+    switch (directive) {
+      case 'Y': return year
+      case 'y': return year.slice(2)
+      case 'm': return month
+      case 'd': return day
+      default: return '%'
+    }
+  })
+}
+
+function formatField(name: keyof FilenameFields, fields: FilenameFields, spec?: string): string {
+  const value = fields[name]
+  if (value === undefined || value === '') return ''
+
+  if (!spec) {
+    // Playlist numbers are padded to the playlist size so files sort in order
+    if (name === 'index' && fields.playlist_count) {
+      return String(value).padStart(Math.max(2, String(fields.playlist_count).length), '0')
+    }
+    return String(value)
+  }
+
+  if (spec.startsWith('%')) {
+    if (name !== 'upload_date') {
+      throw new Error(`{${name}} is not a date`)
+    }
+    return formatDate(String(value), spec)
+  }
+
+  // {index:02} pads with zeros, {index:3} with spaces
+  const padMatch = spec.match(/^(0?)(\d{1,2})$/)
+  if (padMatch) {
+    return String(value).padStart(parseInt(padMatch[2], 10), padMatch[1] ? '0' : ' ')
+  }
+
+  // {title:.40} keeps the first 40 characters
+  const cutMatch = spec.match(/^\.(\d{1,3})$/)
+  if (cutMatch) {
+    return Array.from(String(value)).slice(0, parseInt(cutMatch[1], 10)).join('')
+  }
+
+  throw new Error(`Invalid format "${spec}" for {${name}}`)
+}
+
+function isTemplateField(name: string): name is keyof FilenameFields {
+  return (TEMPLATE_FIELDS as string[]).includes(name)
+}
+
+function substitute(template: string, fields: FilenameFields): string {
+  if (!template.trim()) {
+    throw new Error('Template is empty')
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new Error(`Template is longer than ${MAX_TEMPLATE_LENGTH} characters`)
+  }
+  if (/[{}]/.test(template.replace(FIELD_PATTERN, ''))) {
+    throw new Error('Unmatched "{" or "}" in template')
+  }
+
+  return template.replace(FIELD_PATTERN, (_, name: string, spec?: string) => {
+    if (!isTemplateField(name)) {
+      throw new Error(`Unknown field {${name}}`)
+    }
+    // Separators inside values must not create folders
+    return formatField(name, fields, spec).replace(/[/\\]/g, '_')
+  })
+}
+
+// Returns an error message for an invalid template, null when it is usable
+export function validateTemplate(template: unknown): string | null {
+  if (typeof template !== 'string') {
+    return 'Template must be text'
+  }
+  try {
+    substitute(template, SAMPLE_FILENAME_FIELDS)
+    return null
+  } catch (error: any) {
+    return error.message
+  }
+}
+
+// Render a template to a relative path without extension. Every component is sanitized,
+// empty folders are dropped and the result is shortened so that baseDir + path + reserve
+// fits the platform limits, cutting the filename first and then the longest folders.
+export function renderFilename(template: string, fields: FilenameFields, options: RenderOptions = {}): string {
+  const platform = options.platform ?? process.platform
+  const suffix = options.suffix ?? ''
+  const reserve = (options.reserve ?? DEFAULT_RESERVE) + measure(suffix, platform)
+
+  const segments = substitute(template, fields)
+    .split(/[/\\]/)
+    .map((segment) => sanitizePathSegment(segment, platform))
+    .filter((segment) => segment.length > 0)
+
+  if (segments.length === 0) {
+    segments.push(sanitizePathSegment(fields.title, platform) || 'download')
+  }
+  const last = segments.length - 1
+
+  // Per-component limit
+  for (let i = 0; i < segments.length; i++) {
+    segments[i] = truncate(segments[i], MAX_SEGMENT_LENGTH - (i === last ? reserve : 0), platform)
+  }
+
+  // Whole path limit
+  if (options.baseDir) {
+    const budget = maxPathLength(platform) - measure(options.baseDir, platform) - 1 - reserve
+    const overBy = () => measure(segments.join('/'), platform) - budget
+
+    if (overBy() > 0) {
+      const nameLength = measure(segments[last], platform)
+      segments[last] = truncate(segments[last], Math.max(MIN_NAME_LENGTH, nameLength - overBy()), platform)
+    }
+
+    while (overBy() > 0) {
+      let longest = -1
+      for (let i = 0; i < last; i++) {
+        const length = measure(segments[i], platform)
+        if (length > MIN_NAME_LENGTH && (longest === -1 || length > measure(segments[longest], platform))) {
+          longest = i
+        }
+      }
+      if (longest === -1) {
+        throw new Error('The download folder path is too long for this system')
+      }
+      const length = measure(segments[longest], platform)
+      segments[longest] = truncate(segments[longest], Math.max(MIN_NAME_LENGTH, length - overBy()), platform)
+    }
+  }
+
+  return segments
+    .map((segment, i) => {
+      const finished = finishSegment(segment, platform)
+      return i === last ? `${finished || 'download'}${suffix}` : finished || '_'
+    })
+    .join(platform === 'win32' ? '\\' : '/')
+}
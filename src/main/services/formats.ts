@@ -0,0 +1,141 @@
+import type { AudioFormat, AudioSource, VideoContainer } from './downloadQueue'
+
+// How a container carries cover art:
+// - 'stream': attached picture stream, survives an ffmpeg re-encode when mapped
+// - 'tag': METADATA_BLOCK_PICTURE comment written by yt-dlp, ffmpeg cannot write it back
+// - 'none': container has no cover art support
+export type CoverArtSupport = 'stream' | 'tag' | 'none'
+
+export interface AudioFormatSpec {
+  extension: string
+  ytdlpFormat: string // value for yt-dlp --audio-format
+  codec: string       // ffmpeg encoder used when re-encoding
+  lossless: boolean
+  coverArt: CoverArtSupport
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatSpec> = {
+  mp3: { extension: 'mp3', ytdlpFormat: 'mp3', codec: 'libmp3lame', lossless: false, coverArt: 'stream' },
+  m4a: { extension: 'm4a', ytdlpFormat: 'm4a', codec: 'aac', lossless: false, coverArt: 'stream' },
+  opus: { extension: 'opus', ytdlpFormat: 'opus', codec: 'libopus', lossless: false, coverArt: 'tag' },
+  ogg: { extension: 'ogg', ytdlpFormat: 'vorbis', codec: 'libvorbis', lossless: false, coverArt: 'tag' },
+  flac: { extension: 'flac', ytdlpFormat: 'flac', codec: 'flac', lossless: true, coverArt: 'stream' },
+  wav: { extension: 'wav', ytdlpFormat: 'wav', codec: 'pcm_s16le', lossless: true, coverArt: 'none' },
+}
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = 'mp3'
+
+export interface VideoContainerSpec {
+  extension: string
+  audioCodec: string // ffmpeg audio encoder used when re-encoding
+  coverArt: CoverArtSupport
+}
+
+export const VIDEO_CONTAINERS: Record<VideoContainer, VideoContainerSpec> = {
+  mp4: { extension: 'mp4', audioCodec: 'aac', coverArt: 'stream' },
+  mkv: { extension: 'mkv', audioCodec: 'aac', coverArt: 'stream' },
+}
+
+export const VIDEO_HEIGHTS = [360, 480, 720, 1080, 1440, 2160] as const
+
+export const DEFAULT_VIDEO_HEIGHT = 1080
+
+export function isVideoContainer(value: unknown): value is VideoContainer {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VIDEO_CONTAINERS, value)
+}
+
+// yt-dlp format selector for separate video+audio streams capped at a height,
+// falling back to the best pre-merged stream. MP4 prefers H.264/AAC for playback compatibility.
+export function buildVideoFormatSelector(container: VideoContainer, maxHeight: number): string {
+  const capped = `[height<=${maxHeight}]`
+  const fallback = `bv*${capped}+ba/b${capped}/b`
+  return container === 'mp4'
+    ? `bv*${capped}[vcodec^=avc1]+ba[ext=m4a]/${fallback}`
+    : fallback
+}
+
+// yt-dlp format filters per codec preference (YouTube serves Opus in WebM and AAC in M4A)
+const AUDIO_CODEC_FILTERS = {
+  opus: '[acodec=opus]',
+  aac: '[acodec^=mp4a]',
+}
+
+// yt-dlp format selector for the audio source stream. A picked format falls back to the best
+// stream when the video no longer offers it; a rule drops its filters one at a time, codec first
+// and language last, until some stream matches.
+export function buildAudioFormatSelector(source?: AudioSource): string {
+  if (!source) return 'bestaudio'
+  if (source.kind === 'format') return `${source.formatId}/bestaudio`
+
+  const filters = [
+    source.language ? `[language^=${source.language}]` : '',
+    source.maxBitrate ? `[abr<=${source.maxBitrate}]` : '',
+    source.codec ? AUDIO_CODEC_FILTERS[source.codec] : '',
+  ].filter(Boolean)
+
+  const alternatives: string[] = []
+  for (let count = filters.length; count > 0; count--) {
+    alternatives.push(`bestaudio${filters.slice(0, count).join('')}`)
+  }
+  return [...alternatives, 'bestaudio'].join('/')
+}
+
+// Validated audio source from untrusted input, undefined means the best stream
+export function parseAudioSource(value: unknown): AudioSource | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const source = value as Record<string, unknown>
+
+  if (source.kind === 'format') {
+    // yt-dlp format ids look like "251", "140-drc" or "hls-128"
+    return typeof source.formatId === 'string' && /^[\w.-]{1,40}$/.test(source.formatId)
+      ? { kind: 'format', formatId: source.formatId }
+      : undefined
+  }
+  if (source.kind !== 'rule') return undefined
+
+  const codec = source.codec === 'opus' || source.codec === 'aac' ? source.codec : undefined
+  const maxBitrate = typeof source.maxBitrate === 'number' && source.maxBitrate >= 32 && source.maxBitrate <= 512
+    ? Math.round(source.maxBitrate)
+    : undefined
+  const language = typeof source.language === 'string' && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(source.language)
+    ? source.language
+    : undefined
+
+  // An empty rule is the default
+  if (!codec && !maxBitrate && !language) return undefined
+  return {
+    kind: 'rule',
+    ...(codec ? { codec } : {}),
+    ...(maxBitrate ? { maxBitrate } : {}),
+    ...(language ? { language } : {}),
+  }
+}
+
+export function isAudioFormat(value: unknown): value is AudioFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AUDIO_FORMATS, value)
+}
+
+// Map quality option to an ffmpeg bitrate (undefined for lossless formats)
+export function qualityToBitrate(format: AudioFormat, quality: string): string | undefined {
+  if (AUDIO_FORMATS[format].lossless) return undefined
+
+  switch (quality) {
+    case '320': return '320k'
+    case '256': return '256k'
+    case '192': return '192k'
+    case '128': return '128k'
+    default: return '192k'
+  }
+}
+
+// Map quality option to yt-dlp --audio-quality (undefined for lossless formats)
+export function qualityToYtdlpArg(format: AudioFormat, quality: string): string | undefined {
+  if (AUDIO_FORMATS[format].lossless) return undefined
+
+  // MP3 keeps the LAME VBR presets, other lossy codecs take a target bitrate
+  if (format === 'mp3') {
+    return quality === '320' ? '0' : quality === '256' ? '1' : quality === '192' ? '2' : '4'
+  }
+  const bitrate = qualityToBitrate(format, quality) || '192k'
+  return bitrate.toUpperCase()
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { writeFileSync } from 'fs'
+import type { DownloadOptions } from './downloadQueue'
+
+vi.mock('electron-store', () => ({
+  default: class {
+    private data: Record<string, unknown>
+    constructor(options: { defaults?: Record<string, unknown> } = {}) {
+      this.data = { ...options.defaults }
+    }
+    get(key: string, fallback?: unknown) {
+      return this.data[key] ?? fallback
+    }
+    set(key: string, value: unknown) {
+      this.data[key] = value
+    }
+  },
+}))
+
+const { buildOptionsKey, addToHistory, findDuplicate, clearHistory } = await import('./history')
+
+const audio: DownloadOptions = { mode: 'audio', format: 'mp3', quality: '192', speed: 1 }
+
+describe('buildOptionsKey', () => {
+  it('keeps the key of plain options unchanged', () => {
+    expect(buildOptionsKey(audio)).toBe('["audio","mp3","192",1,0,null,null,"off"]')
+  })
+
+  it('tells chapter splits apart from the whole file', () => {
+    expect(buildOptionsKey({ ...audio, splitChapters: true })).not.toBe(buildOptionsKey(audio))
+    expect(buildOptionsKey({ ...audio, splitChapters: false })).toBe(buildOptionsKey(audio))
+  })
+
+  it('includes the caption sidecars that are written', () => {
+    const captions: DownloadOptions = { ...audio, subtitleLanguage: 'en', subtitleFormats: ['srt', 'txt'] }
+    expect(buildOptionsKey(captions)).not.toBe(buildOptionsKey(audio))
+    expect(buildOptionsKey(captions)).not.toBe(buildOptionsKey({ ...captions, subtitleLanguage: 'de' }))
+    expect(buildOptionsKey(captions)).not.toBe(buildOptionsKey({ ...captions, autoSubtitles: false }))
+    expect(buildOptionsKey(captions)).toBe(buildOptionsKey({ ...captions, subtitleFormats: ['txt', 'srt'] }))
+    // Without formats nothing is written
+    expect(buildOptionsKey({ ...audio, subtitleLanguage: 'en', subtitleFormats: [] })).toBe(buildOptionsKey(audio))
+  })
+
+  it('includes embedded subtitles for videos only', () => {
+    const video: DownloadOptions = { ...audio, mode: 'video', videoContainer: 'mp4', maxHeight: 1080 }
+    expect(buildOptionsKey({ ...video, embedSubtitles: true })).not.toBe(buildOptionsKey(video))
+    expect(buildOptionsKey({ ...audio, embedSubtitles: true })).toBe(buildOptionsKey(audio))
+  })
+})
+
+describe('findDuplicate', () => {
+  const outputPath = join(tmpdir(), 'tuberun-history-test.mp3')
+
+  beforeEach(() => {
+    clearHistory()
+    writeFileSync(outputPath, '')
+  })
+
+  it('matches only a download made with the same options', () => {
+    const split = { ...audio, splitChapters: true }
+    addToHistory({
+      id: '1',
+      url: 'https://www.youtube.com/watch?v=aaaaaaaaaaa',
+      videoId: 'aaaaaaaaaaa',
+      title: 'Album',
+      outputPath,
+      optionsKey: buildOptionsKey(split),
+    })
+
+    expect(findDuplicate('aaaaaaaaaaa', buildOptionsKey(split))?.id).toBe('1')
+    expect(findDuplicate('aaaaaaaaaaa', buildOptionsKey(audio))).toBeUndefined()
+  })
+})
@@ -1,11 +1,37 @@
 import Store from 'electron-store'
+import { existsSync } from 'fs'
+import type { MediaMode, DownloadOptions } from './downloadQueue'
+import type { CollisionOutcome } from './collision'
+import { extractVideoId } from './videoId'
 
-interface HistoryItem {
+export interface HistoryItem {
   id: string
   url: string
+  videoId?: string // canonical YouTube id, missing on items saved before duplicate detection
   title: string
   outputPath: string
   timestamp: number
+  trackCount?: number // set when split by chapters, outputPath is the first track
+  startTime?: number // seconds, set when only a clip was downloaded
+  endTime?: number
+  speed?: number // set when not 1x
+  pitch?: number // semitones, set when shifted
+  mode?: MediaMode // missing on items saved before video mode existed
+  maxHeight?: number // video mode only
+  sidecars?: string[] // caption/transcript files written next to the media
+  collision?: CollisionOutcome // the output name was taken, see outputPath for what was kept
+  optionsKey?: string // see buildOptionsKey
+  timings?: DownloadTimings // missing on items saved before timings were kept
+  audioFallback?: string // picked audio format that was gone, the best stream was downloaded instead
+}
+
+// Where the time of a download went, in ms
+export interface DownloadTimings {
+  total: number
+  info: number // extracting the video info, 0 when it came from the cache
+  infoCached: boolean
+  transfer: number // yt-dlp fetching and post-processing, restarts included
+  processing: number // loudness, encoding, chapters and captions after the transfer
 }
 
 interface StoreSchema {
@@ -43,6 +69,57 @@ export function addToHistory(item: Omit<HistoryItem, 'timestamp'>): void {
   store.set('history', updated)
 }
 
+// Options that change the produced file, two downloads with the same key are the same result
+export function buildOptionsKey(options: DownloadOptions): string {
+  const isVideo = options.mode === 'video'
+  const writesCaptions = Boolean(options.subtitleLanguage && options.subtitleFormats?.length)
+  // Only the ones set, so keys of downloads made before they existed still match
+  const extras = {
+    ...(options.splitChapters ? { splitChapters: true } : {}),
+    ...(isVideo && options.embedSubtitles ? { embedSubtitles: true } : {}),
+    ...(writesCaptions ? {
+      captions: [options.subtitleLanguage, [...options.subtitleFormats!].sort(), options.autoSubtitles !== false],
+    } : {}),
+  }
+  return JSON.stringify([
+    options.mode,
+    isVideo ? options.videoContainer || 'mp4' : options.format,
+    isVideo ? options.maxHeight : options.quality,
+    options.speed,
+    options.pitch || 0,
+    options.startTime ?? null,
+    options.endTime ?? null,
+    options.normalize || 'off',
+    // Only when set, so keys of downloads made before it existed still match
+    ...(options.audioSource ? [options.audioSource] : []),
+    ...(Object.keys(extras).length > 0 ? [extras] : []),
+  ])
+}
+
+function getItemVideoId(item: HistoryItem): string | null {
+  return item.videoId || extractVideoId(item.url)
+}
+
+// Most recent download of the same video with the same options whose file still exists
+export function findDuplicate(videoId: string, optionsKey: string): HistoryItem | undefined {
+  return getHistory().find((item) =>
+    item.collision !== 'skipped' &&
+    item.optionsKey === optionsKey &&
+    getItemVideoId(item) === videoId &&
+    existsSync(item.outputPath)
+  )
+}
+
+// Video ids of everything in history, regardless of options
+export function getDownloadedVideoIds(): Set<string> {
+  const ids = new Set<string>()
+  for (const item of getHistory()) {
+    const videoId = getItemVideoId(item)
+    if (videoId) ids.add(videoId)
+  }
+  return ids
+}
+
 export function clearHistory(): void {
   store.set('history', [])
 }
@@ -0,0 +1,64 @@
+import type { LoudnessPreset } from './downloadQueue'
+
+export interface LoudnessTarget {
+  integrated: number // LUFS
+  truePeak: number   // dBTP
+  range: number      // LU
+}
+
+// First-pass loudnorm measurement (values as printed by ffmpeg)
+export interface LoudnessMeasurement {
+  input_i: string
+  input_tp: string
+  input_lra: string
+  input_thresh: string
+  target_offset: string
+}
+
+export const LOUDNESS_PRESETS: Record<LoudnessPreset, LoudnessTarget> = {
+  podcast: { integrated: -16, truePeak: -1.5, range: 11 },
+  music: { integrated: -14, truePeak: -1, range: 11 },
+  broadcast: { integrated: -23, truePeak: -1, range: 7 },
+}
+
+// loudnorm upsamples to 192kHz internally, resample to a rate every codec accepts
+const OUTPUT_SAMPLE_RATE = 48000
+
+export function isLoudnessPreset(value: unknown): value is LoudnessPreset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOUDNESS_PRESETS, value)
+}
+
+// Filter for the analysis pass, prints measurements as JSON on stderr
+export function buildMeasureFilter(target: LoudnessTarget): string {
+  return `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}:print_format=json`
+}
+
+// Filter chain for the second pass, applying the measured correction linearly
+export function buildNormalizeFilters(target: LoudnessTarget, measured: LoudnessMeasurement): string[] {
+  return [
+    `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}` +
+      `:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}` +
+      `:measured_LRA=${measured.input_lra}:measured_thresh=${measured.input_thresh}` +
+      `:offset=${measured.target_offset}:linear=true`,
+    `aresample=${OUTPUT_SAMPLE_RATE}`,
+  ]
+}
+
+// Extract the loudnorm JSON block from ffmpeg's stderr
+export function parseMeasurement(stderr: string): LoudnessMeasurement {
+  const match = stderr.match(/\{[^{}]*"input_i"[^{}]*\}/)
+  if (!match) {
+    throw new Error('Loudness analysis produced no measurement')
+  }
+
+  const parsed = JSON.parse(match[0])
+  const fields: (keyof LoudnessMeasurement)[] = ['input_i', 'input_tp', 'input_lra', 'input_thresh', 'target_offset']
+  for (const field of fields) {
+    // Silent input measures as -inf, which loudnorm cannot correct
+    if (typeof parsed[field] !== 'string' || !Number.isFinite(parseFloat(parsed[field]))) {
+      throw new Error(`Loudness analysis returned an invalid ${field}`)
+    }
+  }
+
+  return parsed as LoudnessMeasurement
+}
@@ -0,0 +1,71 @@
+import { readdir, rm, rmdir, stat } from 'fs/promises'
+import { join } from 'path'
+
+// Each download writes yt-dlp's .part files and intermediates into its own folder below the
+// output folder, so a retry or a download restored after a restart continues where it stopped.
+// Same filesystem as the output, so finished files are moved into place without copying.
+export const PARTIALS_DIR = '.tuberun-partial'
+
+export function getWorkspace(outputDir: string, id: string): string {
+  return join(outputDir, PARTIALS_DIR, id)
+}
+
+export async function removeWorkspace(outputDir: string, id: string): Promise<void> {
+  try {
+    // Retries cover files a just-killed process still holds open on Windows
+    await rm(getWorkspace(outputDir, id), { recursive: true, force: true, maxRetries: 5, retryDelay: 200 })
+    await rmdir(join(outputDir, PARTIALS_DIR))
+  } catch {
+    // Other workspaces remain or the folder is already gone
+  }
+}
+
+// Last time anything in a workspace was written
+async function lastModified(path: string): Promise<number> {
+  let latest = (await stat(path)).mtimeMs
+  for (const name of await readdir(path)) {
+    try {
+      latest = Math.max(latest, (await stat(join(path, name))).mtimeMs)
+    } catch {
+      // Removed while scanning
+    }
+  }
+  return latest
+}
+
+// Delete workspaces of downloads that are not in keepIds once they are older than maxAgeMs.
+// Returns the number of workspaces removed.
+export async function cleanupStalePartials(
+  outputDirs: string[],
+  keepIds: Set<string>,
+  maxAgeMs: number,
+  now: number = Date.now()
+): Promise<number> {
+  let removed = 0
+
+  for (const outputDir of new Set(outputDirs)) {
+    const root = join(outputDir, PARTIALS_DIR)
+    let names: string[]
+    try {
+      names = await readdir(root)
+    } catch {
+      continue
+    }
+
+    for (const name of names) {
+      if (keepIds.has(name)) continue
+      try {
+        if (now - await lastModified(join(root, name)) < maxAgeMs) continue
+        await rm(join(root, name), { recursive: true, force: true })
+        removed++
+      } catch {
+        // Leave it for the next cleanup
+      }
+    }
+
+    // Drop the folder itself once it is empty
+    await rmdir(root).catch(() => {})
+  }
+
+  return removed
+}
@@ -0,0 +1,159 @@
+import { spawn } from 'child_process'
+import { getYtdlpPath, getTuberunDir } from './setup'
+import { getCookieArgs } from './cookies'
+
+// Platform detection
+const isWindows = process.platform === 'win32'
+const PATH_SEPARATOR = isWindows ? ';' : ':'
+
+// Flat listings only fetch playlist pages, but large playlists take a while
+const EXPAND_TIMEOUT_MS = 120000
+
+export interface PlaylistEntry {
+  id: string
+  url: string
+  title: string
+  index: number // 1-based position in the playlist
+  duration?: number // seconds
+  downloaded?: boolean // already in download history
+}
+
+export interface PlaylistInfo {
+  id: string
+  title: string
+  uploader?: string
+  entries: PlaylistEntry[]
+}
+
+// Playlist pages and watch URLs carrying a list= parameter
+export function isPlaylistURL(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim())
+    if (!/(^|\.)youtube\.com$/.test(parsed.hostname) && parsed.hostname !== 'youtu.be') {
+      return false
+    }
+    return parsed.searchParams.has('list')
+  } catch {
+    return false
+  }
+}
+
+// Channel pages: /@handle, /channel/UC..., /c/name and /user/name, optionally on a tab
+const CHANNEL_PATH = /^\/(@[\w.-]+|channel\/UC[\w-]+|c\/[^/]+|user\/[^/]+)(\/(videos|shorts|streams|featured))?\/?$/
+
+export function isChannelURL(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim())
+    return /(^|\.)youtube\.com$/.test(parsed.hostname) && CHANNEL_PATH.test(parsed.pathname)
+  } catch {
+    return false
+  }
+}
+
+// A bare channel URL lists its tabs, point it at the uploads instead
+export function toChannelVideosURL(url: string): string {
+  const parsed = new URL(url.trim())
+  const match = parsed.pathname.match(CHANNEL_PATH)
+  if (!match) return url
+  const tab = match[3] && match[3] !== 'featured' ? match[3] : 'videos'
+  return `https://www.youtube.com/${match[1]}/${tab}`
+}
+
+// Canonical playlist page for a URL carrying list= (watch links included)
+export function toPlaylistPageURL(url: string): string {
+  const listId = new URL(url.trim()).searchParams.get('list')
+  return listId ? `https://www.youtube.com/playlist?list=${listId}` : url
+}
+
+// Enumerate a playlist without resolving each video (yt-dlp --flat-playlist),
+// limit keeps only the first entries (channels list newest first)
+export function expandPlaylist(url: string, limit?: number): Promise<PlaylistInfo> {
+  return new Promise((resolve, reject) => {
+    const args = [...getCookieArgs(), '--flat-playlist', '--yes-playlist', '--dump-single-json']
+    if (limit && limit > 0) {
+      args.push('--playlist-end', String(limit))
+    }
+    args.push(url)
+
+    const listProcess = spawn(getYtdlpPath(), args, {
+      env: {
+        ...process.env,
+        PATH: `${getTuberunDir()}${PATH_SEPARATOR}${process.env.PATH}`,
+      },
+    })
+
+    let output = ''
+    let errorOutput = ''
+    let timedOut = false
+
+    const timeout = setTimeout(() => {
+      timedOut = true
+      listProcess.kill(isWindows ? 'SIGKILL' : 'SIGTERM')
+    }, EXPAND_TIMEOUT_MS)
+
+    listProcess.stdout.on('data', (data) => {
+      output += data.toString()
+    })
+
+    listProcess.stderr.on('data', (data) => {
+      // Cap error string to prevent memory issues
+      if (errorOutput.length < 10000) {
+        errorOutput += data.toString()
+      }
+    })
+
+    listProcess.on('close', (code) => {
+      clearTimeout(timeout)
+
+      if (timedOut) {
+        reject(new Error('Listing the playlist timed out. Please try again.'))
+        return
+      }
+      if (code !== 0) {
+        reject(new Error(errorOutput || 'Failed to list playlist'))
+        return
+      }
+
+      try {
+        resolve(parsePlaylist(JSON.parse(output)))
+      } catch (err: any) {
+        reject(new Error(`Failed to parse playlist: ${err.message}`))
+      }
+    })
+
+    listProcess.on('error', (err) => {
+      clearTimeout(timeout)
+      reject(new Error(`Failed to start yt-dlp: ${err.message}`))
+    })
+  })
+}
+
+function parsePlaylist(info: any): PlaylistInfo {
+  if (info._type !== 'playlist' || !Array.isArray(info.entries)) {
+    throw new Error('URL is not a playlist')
+  }
+
+  const entries: PlaylistEntry[] = []
+  info.entries.forEach((entry: any, i: number) => {
+    // Deleted and private videos show up as entries without a usable id,
+    // they keep their slot so indexes match the playlist
+    if (!entry || typeof entry.id !== 'string') return
+
+    entries.push({
+      id: entry.id,
+      url: entry.url && /^https?:/.test(entry.url)
+        ? entry.url
+        : `https://www.youtube.com/watch?v=${entry.id}`,
+      title: entry.title || entry.id,
+      index: typeof entry.playlist_index === 'number' ? entry.playlist_index : i + 1,
+      duration: typeof entry.duration === 'number' ? entry.duration : undefined,
+    })
+  })
+
+  return {
+    id: info.id,
+    title: info.title || 'Playlist',
+    uploader: info.uploader || info.channel || undefined,
+    entries,
+  }
+}
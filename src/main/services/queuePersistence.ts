@@ -0,0 +1,48 @@
+import Store from 'electron-store'
+import type { DownloadQueueManager, SavedDownload } from './downloadQueue'
+
+interface StoreSchema {
+  downloads: SavedDownload[]
+}
+
+const store = new Store<StoreSchema>({
+  name: 'tuberun-queue',
+  defaults: {
+    downloads: [],
+  },
+})
+
+let watchedQueue: DownloadQueueManager | null = null
+
+const save = (): void => {
+  if (watchedQueue) {
+    store.set('downloads', watchedQueue.getSavedDownloads())
+  }
+}
+
+// Downloads that were unfinished when the app last quit
+export function getSavedQueue(): SavedDownload[] {
+  const downloads = store.get('downloads', [])
+  return Array.isArray(downloads)
+    ? downloads.filter((d) => d && typeof d.id === 'string' && typeof d.url === 'string' && d.options)
+    : []
+}
+
+// Save the queue now and after every change. Starting this replaces what was saved before,
+// so restore or discard the saved queue first.
+export function persistQueue(queue: DownloadQueueManager): void {
+  if (watchedQueue) return
+
+  watchedQueue = queue
+  queue.on('changed', save)
+  save()
+}
+
+// Save a last time and stop, so that tearing down the queue on quit isn't recorded
+export function stopPersistingQueue(): void {
+  if (!watchedQueue) return
+
+  save()
+  watchedQueue.off('changed', save)
+  watchedQueue = null
+}
@@ -0,0 +1,62 @@
+// Time source for the queue scheduler, replaced in tests to move time without waiting
+export interface Clock {
+  now(): number
+  setTimeout(callback: () => void, ms: number): unknown
+  clearTimeout(handle: unknown): void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+}
+
+// Daily period in local time during which downloads may start, in minutes after midnight.
+// start > end spans midnight (e.g. 01:00-07:00 is 60-420, 22:00-06:00 is 1320-360),
+// start === end allows the whole day.
+export interface TimeWindow {
+  start: number
+  end: number
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+export function isTimeWindow(value: unknown): value is TimeWindow {
+  if (!value || typeof value !== 'object') return false
+  const { start, end } = value as TimeWindow
+  return [start, end].every((m) => Number.isInteger(m) && m >= 0 && m < MINUTES_PER_DAY)
+}
+
+function minuteOfDay(time: number): number {
+  const date = new Date(time)
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+export function isInWindow(time: number, window: TimeWindow): boolean {
+  const minute = minuteOfDay(time)
+  if (window.start === window.end) return true
+  if (window.start < window.end) {
+    return minute >= window.start && minute < window.end
+  }
+  return minute >= window.start || minute < window.end
+}
+
+// Next time after `time` the clock reads `minute` (local time, so DST shifts are respected)
+export function nextOccurrence(time: number, minute: number): number {
+  const date = new Date(time)
+  date.setHours(Math.floor(minute / 60), minute % 60, 0, 0)
+  if (date.getTime() <= time) {
+    date.setDate(date.getDate() + 1)
+  }
+  return date.getTime()
+}
+
+// Earliest time at or after `time` that lies inside the window
+export function nextWindowStart(time: number, window: TimeWindow): number {
+  return isInWindow(time, window) ? time : nextOccurrence(time, window.start)
+}
+
+// When the window next closes, null for a window that never does
+export function nextWindowEnd(time: number, window: TimeWindow): number | null {
+  return window.start === window.end ? null : nextOccurrence(time, window.end)
+}
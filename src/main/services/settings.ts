@@ -1,32 +1,68 @@
 import Store from 'electron-store'
+import type { LoudnessPreset } from './downloadQueue'
+import { isLoudnessPreset } from './loudness'
+import { CollisionPolicy, DEFAULT_COLLISION_POLICY, isCollisionPolicy } from './collision'
+import { TimeWindow, isTimeWindow } from './schedule'
+import { BandwidthProfile, MAX_BANDWIDTH_PROFILES, isBandwidthProfile } from './bandwidth'
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_PLAYLIST_FILENAME_TEMPLATE,
+  validateTemplate,
+} from './filenameTemplate'
 
 export interface DownloadSettings {
   maxConcurrentDownloads: number  // 1-5, default 2
   maxRetries: number              // 0-5, default 3
-  downloadTimeout: number         // seconds, default 300
-  bandwidthLimit: number          // KB/s, 0 = unlimited
+  downloadTimeout: number         // seconds without progress before an attempt fails, default 300
+  bandwidthLimit: number          // KB/s shared by all downloads, 0 = unlimited
+  bandwidthProfiles: BandwidthProfile[] // other limits during parts of the day, up to 4
   autoRetry: boolean              // default true
+  embedMetadata: boolean          // default true
+  cropThumbnail: boolean          // default false
+  normalization: LoudnessPreset | 'off' // default 'off'
+  filenameTemplate: string        // default '{title}'
+  playlistFilenameTemplate: string // default '{playlist}/{index} {title}'
+  collisionPolicy: CollisionPolicy // default 'rename'
+  duplicateHandling: DuplicateHandling // default 'warn'
+  keepPartialDays: number         // 0-30, partial files of unfinished downloads, default 7
+  downloadWindow: TimeWindow | null // daily hours downloads may start in, null = any time
 }
 
+// What download:start does with a video already in history with the same options
+export type DuplicateHandling = 'warn' | 'skip' | 'off'
+
 interface SettingsSchema {
   downloads: DownloadSettings
 }
 
+const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  maxConcurrentDownloads: 2,
+  maxRetries: 3,
+  downloadTimeout: 300,
+  bandwidthLimit: 0,
+  bandwidthProfiles: [],
+  autoRetry: true,
+  embedMetadata: true,
+  cropThumbnail: false,
+  normalization: 'off',
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  playlistFilenameTemplate: DEFAULT_PLAYLIST_FILENAME_TEMPLATE,
+  collisionPolicy: DEFAULT_COLLISION_POLICY,
+  duplicateHandling: 'warn',
+  keepPartialDays: 7,
+  downloadWindow: null,
+}
+
 const settingsStore = new Store<SettingsSchema>({
   name: 'tuberun-settings',
   defaults: {
-    downloads: {
-      maxConcurrentDownloads: 2,
-      maxRetries: 3,
-      downloadTimeout: 300,
-      bandwidthLimit: 0,
-      autoRetry: true,
-    },
+    downloads: DEFAULT_DOWNLOAD_SETTINGS,
   },
 })
 
 export function getDownloadSettings(): DownloadSettings {
-  return settingsStore.get('downloads')
+  // Merge defaults so settings added in newer versions have a value
+  return { ...DEFAULT_DOWNLOAD_SETTINGS, ...settingsStore.get('downloads') }
 }
 
 // Clamp a value to a valid range
@@ -50,9 +86,49 @@ function validateSettings(settings: Partial<DownloadSettings>): Partial<Download
   if (settings.bandwidthLimit !== undefined) {
     validated.bandwidthLimit = clamp(Math.round(settings.bandwidthLimit), 0, 100000)
   }
+  if (Array.isArray(settings.bandwidthProfiles)) {
+    validated.bandwidthProfiles = settings.bandwidthProfiles
+      .filter(isBandwidthProfile)
+      .slice(0, MAX_BANDWIDTH_PROFILES)
+      .map((p) => ({ start: p.start, end: p.end, limit: clamp(Math.round(p.limit), 0, 100000) }))
+  }
   if (settings.autoRetry !== undefined) {
     validated.autoRetry = Boolean(settings.autoRetry)
   }
+  if (settings.embedMetadata !== undefined) {
+    validated.embedMetadata = Boolean(settings.embedMetadata)
+  }
+  if (settings.cropThumbnail !== undefined) {
+    validated.cropThumbnail = Boolean(settings.cropThumbnail)
+  }
+  if (settings.normalization !== undefined) {
+    validated.normalization = isLoudnessPreset(settings.normalization) ? settings.normalization : 'off'
+  }
+  // Invalid templates are ignored, the settings panel previews them before saving
+  if (settings.filenameTemplate !== undefined && validateTemplate(settings.filenameTemplate) === null) {
+    validated.filenameTemplate = settings.filenameTemplate.trim()
+  }
+  if (settings.playlistFilenameTemplate !== undefined && validateTemplate(settings.playlistFilenameTemplate) === null) {
+    validated.playlistFilenameTemplate = settings.playlistFilenameTemplate.trim()
+  }
+  if (settings.collisionPolicy !== undefined) {
+    validated.collisionPolicy = isCollisionPolicy(settings.collisionPolicy)
+      ? settings.collisionPolicy
+      : DEFAULT_COLLISION_POLICY
+  }
+  if (settings.duplicateHandling !== undefined) {
+    validated.duplicateHandling = ['warn', 'skip', 'off'].includes(settings.duplicateHandling)
+      ? settings.duplicateHandling
+      : 'warn'
+  }
+  if (settings.keepPartialDays !== undefined) {
+    validated.keepPartialDays = clamp(Math.round(settings.keepPartialDays), 0, 30)
+  }
+  if (settings.downloadWindow !== undefined) {
+    validated.downloadWindow = isTimeWindow(settings.downloadWindow)
+      ? { start: settings.downloadWindow.start, end: settings.downloadWindow.end }
+      : null
+  }
 
   return validated
 }
@@ -66,13 +142,7 @@ export function updateDownloadSettings(settings: Partial<DownloadSettings>): Dow
 }
 
 export function resetDownloadSettings(): DownloadSettings {
-  const defaults: DownloadSettings = {
-    maxConcurrentDownloads: 2,
-    maxRetries: 3,
-    downloadTimeout: 300,
-    bandwidthLimit: 0,
-    autoRetry: true,
-  }
+  const defaults: DownloadSettings = { ...DEFAULT_DOWNLOAD_SETTINGS }
   settingsStore.set('downloads', defaults)
   return defaults
 }
@@ -13,15 +13,24 @@ const execFileAsync = promisify(execFile)
 const isWindows = process.platform === 'win32'
 const isArm64 = process.arch === 'arm64'
 
-// Get the TubeRun data directory (platform-specific)
-export const TUBERUN_DIR = isWindows
-  ? join(app.getPath('appData'), 'TubeRun')
-  : join(app.getPath('home'), '.tuberun')
+// Get the TubeRun data directory (platform-specific). Resolved when used, so modules
+// importing this one load outside Electron too (e.g. in tests).
+export function getTuberunDir(): string {
+  return isWindows
+    ? join(app.getPath('appData'), 'TubeRun')
+    : join(app.getPath('home'), '.tuberun')
+}
 
 // Binary paths (with .exe extension on Windows)
 const EXE_EXT = isWindows ? '.exe' : ''
-export const YTDLP_PATH = join(TUBERUN_DIR, `yt-dlp${EXE_EXT}`)
-export const FFMPEG_PATH = join(TUBERUN_DIR, `ffmpeg${EXE_EXT}`)
+
+export function getYtdlpPath(): string {
+  return join(getTuberunDir(), `yt-dlp${EXE_EXT}`)
+}
+
+export function getFfmpegPath(): string {
+  return join(getTuberunDir(), `ffmpeg${EXE_EXT}`)
+}
 
 // Download URLs - macOS
 const YTDLP_URL_MAC = 'https://github.com/yt-dlp/yt-dlp/releases/latest/download/yt-dlp_macos'
@@ -66,11 +75,11 @@ interface ProgressCallback {
 export async function checkDependencies(): Promise<{ ready: boolean; missing: string[] }> {
   const missing: string[] = []
 
-  if (!existsSync(YTDLP_PATH)) {
+  if (!existsSync(getYtdlpPath())) {
     missing.push('yt-dlp')
   }
 
-  if (!existsSync(FFMPEG_PATH)) {
+  if (!existsSync(getFfmpegPath())) {
     missing.push('ffmpeg')
   }
 
@@ -102,8 +111,9 @@ export async function downloadDependencies(
   onProgress: ProgressCallback
 ): Promise<void> {
   // Ensure directory exists
-  if (!existsSync(TUBERUN_DIR)) {
-    mkdirSync(TUBERUN_DIR, { recursive: true })
+  const tuberunDir = getTuberunDir()
+  if (!existsSync(tuberunDir)) {
+    mkdirSync(tuberunDir, { recursive: true })
   }
 
   // Track errors for each dependency
@@ -119,7 +129,7 @@ export async function downloadDependencies(
     downloadYtDlpWithRetry(createProgressHandler('yt-dlp'))
       .then(async () => {
         // Validate the binary works
-        const valid = await validateBinary(YTDLP_PATH, ['--version'])
+        const valid = await validateBinary(getYtdlpPath(), ['--version'])
         if (!valid) {
           throw new Error('yt-dlp binary validation failed - file may be corrupted')
         }
@@ -133,7 +143,7 @@ export async function downloadDependencies(
     downloadFFmpegWithRetry(createProgressHandler('ffmpeg'))
       .then(async () => {
         // Validate the binary works
-        const valid = await validateBinary(FFMPEG_PATH, ['-version'])
+        const valid = await validateBinary(getFfmpegPath(), ['-version'])
         if (!valid) {
           throw new Error('FFmpeg binary validation failed - file may be corrupted')
         }
@@ -159,19 +169,19 @@ export async function downloadDependencies(
 async function downloadYtDlpWithRetry(onProgress: (percent: number) => void): Promise<void> {
   return downloadWithRetry({
     url: getYtdlpUrl(),
-    destPath: YTDLP_PATH,
+    destPath: getYtdlpPath(),
     name: 'yt-dlp',
     onProgress,
     postProcess: () => {
       if (!isWindows) {
-        chmodSync(YTDLP_PATH, 0o755)
+        chmodSync(getYtdlpPath(), 0o755)
       }
     },
   })
 }
 
 async function downloadFFmpegWithRetry(onProgress: (percent: number) => void): Promise<void> {
-  const archivePath = join(TUBERUN_DIR, 'ffmpeg.zip')
+  const archivePath = join(getTuberunDir(), 'ffmpeg.zip')
 
   await downloadWithRetry({
     url: getFfmpegUrl(),
@@ -328,7 +338,7 @@ async function downloadFile(
 }
 
 async function extractFFmpeg(archivePath: string): Promise<void> {
-  const extractDir = join(TUBERUN_DIR, 'ffmpeg-extract')
+  const extractDir = join(getTuberunDir(), 'ffmpeg-extract')
 
   // Create extract dir
   if (!existsSync(extractDir)) {
@@ -343,10 +353,10 @@ async function extractFFmpeg(archivePath: string): Promise<void> {
     const ffmpegBinary = findFileRecursive(extractDir, isWindows ? 'ffmpeg.exe' : 'ffmpeg')
 
     if (ffmpegBinary) {
-      copyFileSync(ffmpegBinary, FFMPEG_PATH)
+      copyFileSync(ffmpegBinary, getFfmpegPath())
       // Make executable on Unix systems
       if (!isWindows) {
-        chmodSync(FFMPEG_PATH, 0o755)
+        chmodSync(getFfmpegPath(), 0o755)
       }
     } else {
       throw new Error('FFmpeg binary not found in archive')
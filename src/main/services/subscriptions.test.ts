@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+import type Store from 'electron-store'
+import type { DownloadOptions } from './downloadQueue'
+import type { PlaylistInfo } from './playlist'
+
+// Nothing may touch the app paths when the module loads
+vi.mock('electron', () => ({
+  app: {},
+  safeStorage: {},
+  BrowserWindow: class {},
+}))
+
+vi.mock('electron-store', () => ({
+  default: class {},
+}))
+
+const { SubscriptionManager } = await import('./subscriptions')
+type SubscriptionPreset = import('./subscriptions').SubscriptionPreset
+
+// Keeps what electron-store would write to disk in memory
+class MemoryStore {
+  private data: Record<string, unknown> = { subscriptions: [], archive: [] }
+  get(key: string, fallback?: unknown) {
+    return this.data[key] ?? fallback
+  }
+  set(key: string, value: unknown) {
+    this.data[key] = value
+  }
+}
+
+const preset: SubscriptionPreset = { mode: 'audio', format: 'mp3', quality: '192', speed: 1, outputDir: '/music' }
+
+function listing(...ids: string[]): PlaylistInfo {
+  return {
+    id: 'PLtest',
+    title: 'Test playlist',
+    entries: ids.map((id, i) => ({ id, url: `https://www.youtube.com/watch?v=${id}`, title: id, index: i + 1 })),
+  }
+}
+
+describe('SubscriptionManager.check', () => {
+  let listEntries: Mock<[string, number?], Promise<PlaylistInfo>>
+  let enqueue: Mock<[string, DownloadOptions], Promise<string>>
+  let manager: InstanceType<typeof SubscriptionManager>
+
+  beforeEach(() => {
+    listEntries = vi.fn(async (_url: string, _limit?: number) => listing('a', 'b'))
+    enqueue = vi.fn(async (_url: string, _options: DownloadOptions) => 'download-id')
+    manager = new SubscriptionManager(new MemoryStore() as unknown as Store<any>, listEntries)
+    manager.setEnqueueFunction(enqueue)
+  })
+
+  const enqueuedIds = () => enqueue.mock.calls.map(([, options]) => options.subscription?.videoId)
+
+  it('archives the existing videos when subscribing, so only new uploads are queued', async () => {
+    const subscription = await manager.add('https://www.youtube.com/playlist?list=PLtest', preset)
+    expect(enqueue).not.toHaveBeenCalled()
+
+    listEntries.mockResolvedValue(listing('a', 'b', 'c'))
+    expect(await manager.check(subscription.id)).toBe(1)
+    expect(enqueuedIds()).toEqual(['c'])
+    expect(enqueue.mock.calls[0][1]).toMatchObject({ ...preset, subscription: { id: subscription.id, videoId: 'c' } })
+  })
+
+  it('queues the existing videos when subscribing with includeExisting', async () => {
+    const subscription = await manager.add('https://www.youtube.com/playlist?list=PLtest', preset, true)
+    expect(enqueuedIds()).toEqual(['a', 'b'])
+    expect(subscription.lastNewCount).toBe(2)
+  })
+
+  it('skips videos that are already waiting in the queue', async () => {
+    const subscription = await manager.add('https://www.youtube.com/playlist?list=PLtest', preset, true)
+    enqueue.mockClear()
+    manager.setQueuedVideosFunction(() => ['a', 'b'])
+
+    expect(await manager.check(subscription.id)).toBe(0)
+    expect(enqueue).not.toHaveBeenCalled()
+  })
+
+  it('archives a video once its download completes and queues a failed one again once it left the queue', async () => {
+    const subscription = await manager.add('https://www.youtube.com/playlist?list=PLtest', preset, true)
+    const [[, optionsA], [, optionsB]] = enqueue.mock.calls
+    manager.handleProgress({ id: '1', status: 'complete', percent: 100 }, optionsA)
+    manager.handleProgress({ id: '2', status: 'error', percent: 0 }, optionsB)
+    enqueue.mockClear()
+
+    expect(await manager.check(subscription.id)).toBe(1)
+    expect(enqueuedIds()).toEqual(['b'])
+  })
+
+  it('records a failed listing on the subscription', async () => {
+    const subscription = await manager.add('https://www.youtube.com/playlist?list=PLtest', preset)
+    listEntries.mockRejectedValue(new Error('Playlist is private'))
+
+    expect(await manager.check(subscription.id)).toBe(0)
+    expect(manager.getSubscriptions()[0].lastError).toBe('Playlist is private')
+  })
+})
@@ -0,0 +1,275 @@
+import crypto from 'crypto'
+import { EventEmitter } from 'events'
+import { BrowserWindow } from 'electron'
+import Store from 'electron-store'
+import type { DownloadOptions, EnhancedDownloadProgress } from './downloadQueue'
+import {
+  expandPlaylist,
+  isChannelURL,
+  isPlaylistURL,
+  toChannelVideosURL,
+  toPlaylistPageURL,
+  PlaylistInfo,
+} from './playlist'
+
+export type SubscriptionKind = 'channel' | 'playlist'
+
+// Download options applied to everything a subscription enqueues
+export type SubscriptionPreset = Pick<DownloadOptions, 'mode' | 'format' | 'quality' | 'speed' | 'outputDir'>
+
+export interface Subscription {
+  id: string
+  url: string
+  kind: SubscriptionKind
+  title: string
+  preset: SubscriptionPreset
+  enabled: boolean
+  createdAt: number
+  lastCheckedAt?: number
+  lastError?: string
+  lastNewCount?: number // videos enqueued by the last check
+}
+
+interface SubscriptionSchema {
+  subscriptions: Subscription[]
+  archive: string[] // video ids that were downloaded through a subscription
+}
+
+// Lists the entries of a channel or playlist URL (yt-dlp by default, stubbed in tests)
+export type ListEntriesFunction = (url: string, limit?: number) => Promise<PlaylistInfo>
+
+// Queues a download and returns its id
+type EnqueueFunction = (url: string, options: DownloadOptions) => Promise<string>
+
+// Video ids of the downloads in the queue that haven't completed, failed ones included
+type QueuedVideosFunction = () => string[]
+
+// Channels list newest first, only the recent uploads matter
+const CHANNEL_CHECK_LIMIT = 30
+
+// Oldest archive entries are dropped past this size
+const MAX_ARCHIVE_ITEMS = 20000
+
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
+const FIRST_CHECK_DELAY_MS = 60 * 1000 // let the app settle after launch
+
+export class SubscriptionManager extends EventEmitter {
+  private store: Store<SubscriptionSchema>
+  private listEntries: ListEntriesFunction
+  private enqueueFn: EnqueueFunction | null = null
+  private queuedVideosFn: QueuedVideosFunction = () => []
+  private window: BrowserWindow | null = null
+  private timers: NodeJS.Timeout[] = []
+  private checking: Set<string> = new Set()
+
+  constructor(store: Store<SubscriptionSchema>, listEntries: ListEntriesFunction = expandPlaylist) {
+    super()
+    this.store = store
+    this.listEntries = listEntries
+  }
+
+  setWindow(window: BrowserWindow): void {
+    this.window = window
+  }
+
+  setEnqueueFunction(fn: EnqueueFunction): void {
+    this.enqueueFn = fn
+  }
+
+  setQueuedVideosFunction(fn: QueuedVideosFunction): void {
+    this.queuedVideosFn = fn
+  }
+
+  getSubscriptions(): Subscription[] {
+    return this.store.get('subscriptions', [])
+  }
+
+  // Subscribe to a channel or playlist. Videos already present are archived so only
+  // uploads after subscribing are downloaded, unless includeExisting is set.
+  async add(url: string, preset: SubscriptionPreset, includeExisting: boolean = false): Promise<Subscription> {
+    const kind = getSubscriptionKind(url)
+    if (!kind) {
+      throw new Error('Only YouTube channel and playlist URLs can be subscribed to')
+    }
+
+    const listUrl = kind === 'channel' ? toChannelVideosURL(url) : toPlaylistPageURL(url)
+    if (this.getSubscriptions().some((s) => s.url === listUrl)) {
+      throw new Error('Already subscribed to this URL')
+    }
+
+    const listing = await this.listEntries(listUrl, kind === 'channel' ? CHANNEL_CHECK_LIMIT : undefined)
+
+    const subscription: Subscription = {
+      id: crypto.randomUUID(),
+      url: listUrl,
+      kind,
+      title: listing.uploader && kind === 'channel' ? listing.uploader : listing.title,
+      preset,
+      enabled: true,
+      createdAt: Date.now(),
+    }
+    this.store.set('subscriptions', [...this.getSubscriptions(), subscription])
+
+    if (includeExisting) {
+      await this.check(subscription.id, listing)
+    } else {
+      this.addToArchive(listing.entries.map((entry) => entry.id))
+      this.update(subscription.id, { lastCheckedAt: Date.now(), lastNewCount: 0 })
+    }
+
+    return this.getSubscription(subscription.id) || subscription
+  }
+
+  update(id: string, changes: Partial<Pick<Subscription, 'preset' | 'enabled' | 'lastCheckedAt' | 'lastError' | 'lastNewCount' | 'title'>>): Subscription | undefined {
+    let updated: Subscription | undefined
+    const subscriptions = this.getSubscriptions().map((s) => {
+      if (s.id !== id) return s
+      updated = { ...s, ...changes }
+      return updated
+    })
+    if (!updated) return undefined
+
+    this.store.set('subscriptions', subscriptions)
+    this.sendUpdate()
+    return updated
+  }
+
+  remove(id: string): boolean {
+    const subscriptions = this.getSubscriptions()
+    const remaining = subscriptions.filter((s) => s.id !== id)
+    if (remaining.length === subscriptions.length) return false
+
+    this.store.set('subscriptions', remaining)
+    this.sendUpdate()
+    return true
+  }
+
+  // Look for new entries and enqueue them, returns the number of queued videos.
+  // Failures are recorded on the subscription instead of being thrown.
+  async check(id: string, listing?: PlaylistInfo): Promise<number> {
+    const subscription = this.getSubscription(id)
+    if (!subscription || this.checking.has(id)) return 0
+
+    this.checking.add(id)
+    try {
+      if (!this.enqueueFn) {
+        throw new Error('Download queue not ready')
+      }
+
+      const current = listing ?? await this.listEntries(
+        subscription.url,
+        subscription.kind === 'channel' ? CHANNEL_CHECK_LIMIT : undefined
+      )
+
+      // Queued ones include subscription downloads restored after a restart
+      const archived = new Set(this.getArchive())
+      const queued = new Set(this.queuedVideosFn())
+      const fresh = current.entries.filter((entry) => !archived.has(entry.id) && !queued.has(entry.id))
+
+      // Channels list newest first, queue in upload order
+      if (subscription.kind === 'channel') {
+        fresh.reverse()
+      }
+
+      for (const entry of fresh) {
+        await this.enqueueFn(entry.url, {
+          ...subscription.preset,
+          subscription: { id: subscription.id, videoId: entry.id },
+        })
+      }
+
+      this.update(id, { lastCheckedAt: Date.now(), lastError: undefined, lastNewCount: fresh.length })
+      return fresh.length
+    } catch (error: any) {
+      this.update(id, { lastCheckedAt: Date.now(), lastError: error.message || 'Check failed' })
+      return 0
+    } finally {
+      this.checking.delete(id)
+    }
+  }
+
+  async checkAll(): Promise<void> {
+    // One at a time, each listing is a yt-dlp process
+    for (const subscription of this.getSubscriptions()) {
+      if (subscription.enabled) {
+        await this.check(subscription.id)
+      }
+    }
+  }
+
+  // Check periodically, starting shortly after launch
+  start(intervalMs: number = DEFAULT_CHECK_INTERVAL_MS): void {
+    this.stop()
+    this.timers.push(setTimeout(() => this.checkAll(), FIRST_CHECK_DELAY_MS))
+    this.timers.push(setInterval(() => this.checkAll(), intervalMs))
+  }
+
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer)
+    }
+    this.timers = []
+  }
+
+  // Completed downloads go into the archive; failed ones are retried by the first check after they
+  // leave the queue, cancelled ones by the next check.
+  // Options are those of the queued download the progress belongs to.
+  handleProgress(progress: EnhancedDownloadProgress, options?: DownloadOptions): void {
+    if (progress.status === 'complete' && options?.subscription) {
+      this.addToArchive([options.subscription.videoId])
+    }
+  }
+
+  private getSubscription(id: string): Subscription | undefined {
+    return this.getSubscriptions().find((s) => s.id === id)
+  }
+
+  private getArchive(): string[] {
+    return this.store.get('archive', [])
+  }
+
+  private addToArchive(videoIds: string[]): void {
+    const archive = this.getArchive()
+    const known = new Set(archive)
+    const added = videoIds.filter((videoId) => !known.has(videoId))
+    if (added.length === 0) return
+
+    this.store.set('archive', [...archive, ...added].slice(-MAX_ARCHIVE_ITEMS))
+  }
+
+  private sendUpdate(): void {
+    const subscriptions = this.getSubscriptions()
+    try {
+      if (this.window && !this.window.isDestroyed()) {
+        this.window.webContents.send('subscriptions:updated', subscriptions)
+      }
+    } catch (error) {
+      // Window may have been destroyed between check and send
+      console.error('Failed to send subscriptions:', error)
+    }
+    this.emit('updated', subscriptions)
+  }
+}
+
+export function getSubscriptionKind(url: string): SubscriptionKind | null {
+  if (isChannelURL(url)) return 'channel'
+  if (isPlaylistURL(url)) return 'playlist'
+  return null
+}
+
+// Singleton instance
+let managerInstance: SubscriptionManager | null = null
+
+export function getSubscriptionManager(): SubscriptionManager {
+  if (!managerInstance) {
+    const store = new Store<SubscriptionSchema>({
+      name: 'tuberun-subscriptions',
+      defaults: {
+        subscriptions: [],
+        archive: [],
+      },
+    })
+    managerInstance = new SubscriptionManager(store)
+  }
+  return managerInstance
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseVtt, retimeCues, formatCues, writeSidecars } from './subtitles'
+
+// Shortened from a YouTube auto caption track: every cue repeats the previous line
+// and words carry timing tags
+const ROLLING_VTT = `WEBVTT
+Kind: captions
+Language: en
+
+00:00:01.000 --> 00:00:03.000 align:start position:0%
+hello<00:00:01.500><c> world</c>
+
+00:00:03.000 --> 00:00:03.010 align:start position:0%
+hello world
+ 
+
+00:00:03.010 --> 00:00:05.000 align:start position:0%
+hello world
+this &amp; that<00:00:04.000><c> &lt;laughs&gt;</c>
+
+01:00:00.500 --> 01:00:02.000
+bye
+`
+
+const cues = [
+  { start: 0, end: 1.5, text: 'hello world' },
+  { start: 61.25, end: 3723.456, text: 'line one\nline two' },
+]
+
+describe('parseVtt', () => {
+  it('keeps only the new lines of rolling captions and strips tags', () => {
+    expect(parseVtt(ROLLING_VTT)).toEqual([
+      { start: 1, end: 3, text: 'hello world' },
+      { start: 3.01, end: 5, text: 'this & that <laughs>' },
+      { start: 3600.5, end: 3602, text: 'bye' },
+    ])
+  })
+
+  it('reads Windows line endings', () => {
+    expect(parseVtt('WEBVTT\r\n\r\n00:05.000 --> 00:06.500\r\nhi\r\n')).toEqual([{ start: 5, end: 6.5, text: 'hi' }])
+  })
+})
+
+describe('retimeCues', () => {
+  it('rescales cues to the playback speed', () => {
+    expect(retimeCues(cues, { speed: 1.5 })).toEqual([
+      { start: 0, end: 1, text: 'hello world' },
+      { start: 61.25 / 1.5, end: 3723.456 / 1.5, text: 'line one\nline two' },
+    ])
+  })
+
+  it('drops cues outside the clip and shifts the rest to its start', () => {
+    const retimed = retimeCues(parseVtt(ROLLING_VTT), { speed: 2, clipStart: 2, clipEnd: 4 })
+
+    expect(retimed.map((cue) => cue.text)).toEqual(['hello world', 'this & that <laughs>'])
+    expect(retimed[0].start).toBe(0)
+    expect(retimed[0].end).toBe(0.5)
+    expect(retimed[1].start).toBeCloseTo(0.505)
+    expect(retimed[1].end).toBe(1)
+  })
+})
+
+describe('formatCues', () => {
+  it('writes SRT', () => {
+    expect(formatCues(cues, 'srt', 'Song')).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nhello world\n\n' +
+      '2\n00:01:01,250 --> 01:02:03,456\nline one\nline two\n'
+    )
+  })
+
+  it('writes VTT', () => {
+    expect(formatCues(cues, 'vtt', 'Song')).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:01.500\nhello world\n\n' +
+      '00:01:01.250 --> 01:02:03.456\nline one\nline two\n'
+    )
+  })
+
+  it('writes LRC with one line per cue', () => {
+    expect(formatCues(cues, 'lrc', 'Song')).toBe('[ti:Song]\n[00:00.00]hello world\n[01:01.25]line one line two\n')
+  })
+
+  it('writes plain text with one line per cue', () => {
+    expect(formatCues(cues, 'txt', 'Song')).toBe('hello world\nline one line two\n')
+  })
+})
+
+describe('writeSidecars', () => {
+  it('writes one file per format next to the media file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'tuberun-subtitles-'))
+    try {
+      const basePath = join(dir, 'Song')
+      const written = await writeSidecars(basePath, 'en', ROLLING_VTT, ['srt', 'txt'], { speed: 1 }, 'Song')
+
+      expect(written).toEqual([`${basePath}.en.srt`, `${basePath}.en.txt`])
+      expect(await readFile(`${basePath}.en.txt`, 'utf-8')).toBe('hello world\nthis & that <laughs>\nbye\n')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('fails when no cue is left', async () => {
+    await expect(writeSidecars('/nonexistent/Song', 'en', ROLLING_VTT, ['srt'], { speed: 1, clipStart: 10, clipEnd: 20 }, 'Song'))
+      .rejects.toThrow('Caption track is empty')
+  })
+})
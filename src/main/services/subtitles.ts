@@ -0,0 +1,215 @@
+import https from 'https'
+import { writeFile } from 'fs/promises'
+import type { SubtitleFormat } from './downloadQueue'
+
+// Caption track entry from the yt-dlp info JSON (subtitles / automatic_captions)
+interface CaptionTrack {
+  ext: string
+  url: string
+  name?: string
+}
+
+export interface CaptionSelection {
+  language: string
+  automatic: boolean
+  url: string
+}
+
+interface Cue {
+  start: number // seconds
+  end: number
+  text: string
+}
+
+// Timing adjustments applied to every cue so sidecars match the produced audio
+export interface CueTiming {
+  speed: number
+  clipStart?: number
+  clipEnd?: number
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'txt', 'lrc']
+
+const FETCH_TIMEOUT_MS = 30000
+const MAX_CAPTION_BYTES = 20 * 1024 * 1024
+
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === 'string' && SUBTITLE_FORMATS.includes(value as SubtitleFormat)
+}
+
+// Pick a WebVTT caption track for a language, preferring manual captions over auto-generated
+// ones and exact language codes over regional variants ("en" matches "en-US", "en-orig")
+export function selectCaptionTrack(
+  info: { subtitles?: Record<string, CaptionTrack[]>; automatic_captions?: Record<string, CaptionTrack[]> },
+  language: string,
+  allowAutomatic: boolean
+): CaptionSelection | null {
+  const sources: { tracks?: Record<string, CaptionTrack[]>; automatic: boolean }[] = [
+    { tracks: info.subtitles, automatic: false },
+  ]
+  if (allowAutomatic) {
+    sources.push({ tracks: info.automatic_captions, automatic: true })
+  }
+  const wanted = language.toLowerCase()
+
+  for (const { tracks, automatic } of sources) {
+    if (!tracks) continue
+
+    const keys = Object.keys(tracks).filter((key) => key !== 'live_chat')
+    const match =
+      keys.find((key) => key.toLowerCase() === wanted) ||
+      keys.find((key) => key.toLowerCase() === `${wanted}-orig`) ||
+      keys.find((key) => key.toLowerCase().startsWith(`${wanted}-`))
+    if (!match) continue
+
+    const vtt = tracks[match].find((track) => track.ext === 'vtt')
+    if (vtt) {
+      return { language: match, automatic, url: vtt.url }
+    }
+  }
+
+  return null
+}
+
+// Download a caption file as text
+export function fetchCaptionText(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, { timeout: FETCH_TIMEOUT_MS }, (response) => {
+      if (response.statusCode !== 200) {
+        response.resume()
+        reject(new Error(`Caption download failed with HTTP ${response.statusCode}`))
+        return
+      }
+
+      const chunks: Buffer[] = []
+      let size = 0
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > MAX_CAPTION_BYTES) {
+          request.destroy(new Error('Caption file is too large'))
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')))
+      response.on('error', reject)
+    })
+
+    request.on('timeout', () => request.destroy(new Error('Caption download timed out')))
+    request.on('error', reject)
+  })
+}
+
+function parseVttTime(value: string): number {
+  const parts = value.trim().split(':').map(parseFloat)
+  return parts.reduce((total, part) => total * 60 + (part || 0), 0)
+}
+
+// Parse WebVTT into plain-text cues. YouTube's auto captions repeat the previous line in
+// every cue (rolling display) and carry per-word timing tags, both are stripped here.
+export function parseVtt(text: string): Cue[] {
+  const cues: Cue[] = []
+  let previousLines: string[] = []
+
+  for (const block of text.replace(/\r/g, '').split(/\n\n+/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex((line) => line.includes('-->'))
+    if (timingIndex === -1) continue
+
+    const [startText, endRest] = lines[timingIndex].split('-->')
+    const start = parseVttTime(startText)
+    const end = parseVttTime(endRest.trim().split(/\s+/)[0])
+
+    const textLines = lines
+      .slice(timingIndex + 1)
+      .map((line) => line.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').trim())
+      .filter((line) => line.length > 0)
+
+    const newLines = textLines.filter((line) => !previousLines.includes(line))
+    if (textLines.length > 0) {
+      previousLines = textLines
+    }
+    if (newLines.length === 0) continue
+
+    cues.push({ start, end, text: newLines.join('\n') })
+  }
+
+  return cues
+}
+
+// Shift cues to a clip and rescale them to the playback speed of the produced file
+export function retimeCues(cues: Cue[], timing: CueTiming): Cue[] {
+  const clipStart = timing.clipStart ?? 0
+  const clipEnd = timing.clipEnd ?? Infinity
+
+  return cues
+    .filter((cue) => cue.end > clipStart && cue.start < clipEnd)
+    .map((cue) => ({
+      ...cue,
+      start: (Math.max(cue.start, clipStart) - clipStart) / timing.speed,
+      end: (Math.min(cue.end, clipEnd) - clipStart) / timing.speed,
+    }))
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+// 01:02:03,456 (SRT) or 01:02:03.456 (VTT)
+function formatClock(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const h = Math.floor(totalMs / 3600000)
+  const m = Math.floor((totalMs % 3600000) / 60000)
+  const s = Math.floor((totalMs % 60000) / 1000)
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`
+}
+
+// [mm:ss.xx] as used by LRC lyrics
+function formatLrcTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100))
+  const m = Math.floor(totalCs / 6000)
+  const s = Math.floor((totalCs % 6000) / 100)
+  return `[${pad(m)}:${pad(s)}.${pad(totalCs % 100)}]`
+}
+
+export function formatCues(cues: Cue[], format: SubtitleFormat, title: string): string {
+  switch (format) {
+    case 'srt':
+      return cues
+        .map((cue, i) => `${i + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.text}\n`)
+        .join('\n')
+    case 'vtt':
+      return 'WEBVTT\n\n' + cues
+        .map((cue) => `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${cue.text}\n`)
+        .join('\n')
+    case 'txt':
+      return cues.map((cue) => cue.text.replace(/\n/g, ' ')).join('\n') + '\n'
+    case 'lrc':
+      return `[ti:${title}]\n` + cues
+        .map((cue) => `${formatLrcTime(cue.start)}${cue.text.replace(/\n/g, ' ')}`)
+        .join('\n') + '\n'
+  }
+}
+
+// Write one sidecar per requested format next to the media file, returns the written paths
+export async function writeSidecars(
+  basePath: string,
+  language: string,
+  vttText: string,
+  formats: SubtitleFormat[],
+  timing: CueTiming,
+  title: string
+): Promise<string[]> {
+  const cues = retimeCues(parseVtt(vttText), timing)
+  if (cues.length === 0) {
+    throw new Error('Caption track is empty')
+  }
+
+  const written: string[] = []
+  for (const format of formats) {
+    const path = `${basePath}.${language}.${format}`
+    await writeFile(path, formatCues(cues, format, title), 'utf-8')
+    written.push(path)
+  }
+  return written
+}
@@ -0,0 +1,32 @@
+// YouTube video ids are 11 characters from the URL-safe base64 alphabet
+const VIDEO_ID = /^[\w-]{11}$/
+
+// Paths that carry the id as their second segment (/shorts/<id>, /embed/<id>, ...)
+const ID_PATH_PREFIXES = ['shorts', 'embed', 'live', 'v', 'e']
+
+// Canonical video id for any YouTube video URL form (watch, youtu.be, shorts, embed,
+// live, music.youtube), null when the URL doesn't point at a single video
+export function extractVideoId(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return null
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  let candidate: string | null = null
+
+  if (host === 'youtu.be') {
+    candidate = parsed.pathname.split('/')[1] || null
+  } else if (/(^|\.)youtube(-nocookie)?\.com$/.test(host)) {
+    const segments = parsed.pathname.split('/').filter(Boolean)
+    if (segments[0] === 'watch') {
+      candidate = parsed.searchParams.get('v')
+    } else if (ID_PATH_PREFIXES.includes(segments[0])) {
+      candidate = segments[1] || null
+    }
+  }
+
+  return candidate && VIDEO_ID.test(candidate) ? candidate : null
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EventEmitter } from 'events'
+import { tmpdir } from 'os'
+
+const mocks = vi.hoisted(() => ({
+  spawn: vi.fn(),
+}))
+
+vi.mock('electron', () => ({
+  app: { getPath: () => tmpdir() },
+  safeStorage: { isEncryptionAvailable: () => false },
+}))
+
+vi.mock('electron-store', () => ({
+  default: class {
+    get(_key: string, fallback?: unknown) {
+      return fallback ?? null
+    }
+    set() {}
+  },
+}))
+
+vi.mock('child_process', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  spawn: mocks.spawn,
+}))
+
+const { loadVideoInfo } = await import('./videoInfo')
+
+// Stands in for a yt-dlp run that only ends when the test says so
+function createFakeProcess() {
+  const ytdlp = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn(() => {
+      ytdlp.emit('close', null)
+      return true
+    }),
+  })
+  return ytdlp
+}
+
+// A fresh id per test, so no run finds another one's cached info
+function randomVideoUrl(): string {
+  const id = Math.random().toString(36).slice(2, 13).padEnd(11, 'x')
+  return `https://www.youtube.com/watch?v=${id}`
+}
+
+describe('loadVideoInfo', () => {
+  let ytdlp: ReturnType<typeof createFakeProcess>
+
+  beforeEach(() => {
+    ytdlp = createFakeProcess()
+    mocks.spawn.mockReset()
+    mocks.spawn.mockReturnValue(ytdlp)
+  })
+
+  it('stops yt-dlp when the only caller gives up', async () => {
+    const lookup = new AbortController()
+    const result = loadVideoInfo(randomVideoUrl(), lookup.signal)
+    await vi.waitFor(() => expect(mocks.spawn).toHaveBeenCalled())
+
+    lookup.abort()
+    await expect(result).rejects.toThrow('Lookup cancelled')
+    expect(ytdlp.kill).toHaveBeenCalled()
+  })
+
+  it('keeps a lookup running that a download still waits for', async () => {
+    const url = randomVideoUrl()
+    const preview = new AbortController()
+    const previewResult = loadVideoInfo(url, preview.signal)
+    const downloadResult = loadVideoInfo(url)
+    await vi.waitFor(() => expect(mocks.spawn).toHaveBeenCalledTimes(1))
+
+    preview.abort()
+    await expect(previewResult).rejects.toThrow('Lookup cancelled')
+    expect(ytdlp.kill).not.toHaveBeenCalled()
+
+    const videoId = new URL(url).searchParams.get('v')
+    ytdlp.stdout.emit('data', JSON.stringify({ id: videoId, title: 'Still wanted' }))
+    ytdlp.emit('close', 0)
+    await expect(downloadResult).resolves.toMatchObject({ info: { title: 'Still wanted' }, cached: false })
+  })
+
+  it('starts over for a caller arriving after the lookup was abandoned', async () => {
+    const url = randomVideoUrl()
+    const first = new AbortController()
+    const firstResult = loadVideoInfo(url, first.signal)
+    await vi.waitFor(() => expect(mocks.spawn).toHaveBeenCalledTimes(1))
+    first.abort()
+    await expect(firstResult).rejects.toThrow('Lookup cancelled')
+
+    mocks.spawn.mockReturnValue(createFakeProcess())
+    loadVideoInfo(url).catch(() => {})
+    await vi.waitFor(() => expect(mocks.spawn).toHaveBeenCalledTimes(2))
+  })
+})
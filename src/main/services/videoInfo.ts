@@ -0,0 +1,313 @@
+import { app } from 'electron'
+import { spawn } from 'child_process'
+import { join } from 'path'
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises'
+import { getYtdlpPath, getTuberunDir } from './setup'
+import { extractVideoId } from './videoId'
+import { getCookieArgs } from './cookies'
+
+// Platform detection
+const isWindows = process.platform === 'win32'
+const PATH_SEPARATOR = isWindows ? ';' : ':'
+
+// Extracted info JSON per video id, reused by downloads (yt-dlp --load-info-json) and retries
+const INFO_CACHE_DIR = join(app.getPath('userData'), 'info-cache')
+
+// The stream URLs inside expire after a few hours (about 6 on YouTube), so entries are only
+// reused well within that
+const INFO_CACHE_TTL_MS = 30 * 60 * 1000
+
+// 30 seconds should be plenty for metadata
+const INFO_TIMEOUT_MS = 30000
+
+export interface VideoInfoResult {
+  info: any
+  cached: boolean
+  fetchMs: number // time spent extracting, 0 for a cache hit
+}
+
+export interface AudioStreamInfo {
+  formatId: string
+  codec: string // e.g. 'opus', 'mp4a.40.2'
+  ext: string
+  bitrate?: number // kbps
+  language?: string
+  filesize?: number // bytes, exact or estimated
+}
+
+// What the renderer shows about a video before it is downloaded
+export interface VideoPreview {
+  id: string
+  title: string
+  channel?: string
+  duration?: number // seconds
+  thumbnail?: string
+  chapters: { title: string; start: number; end: number }[]
+  audioFormats: AudioStreamInfo[] // best first
+  estimatedSize: {
+    audio?: number // bytes of the best audio stream
+    video?: number // bytes of yt-dlp's default video and audio selection
+  }
+}
+
+// A lookup in progress, shared by everyone asking for the same video
+interface PendingLookup {
+  promise: Promise<VideoInfoResult>
+  controller: AbortController
+  waiting: number // callers that haven't given up, yt-dlp is stopped once none are left
+}
+
+// Lookups in progress per video id, so a preview and a download of the same video share one
+const pendingLookups = new Map<string, PendingLookup>()
+
+function getCachePath(videoId: string): string {
+  return join(INFO_CACHE_DIR, `${videoId}.json`)
+}
+
+async function readCachedInfo(videoId: string, now: number): Promise<any | null> {
+  try {
+    const path = getCachePath(videoId)
+    if (now - (await stat(path)).mtimeMs >= INFO_CACHE_TTL_MS) return null
+    return JSON.parse(await readFile(path, 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+async function writeCachedInfo(videoId: string, info: any): Promise<void> {
+  try {
+    await mkdir(INFO_CACHE_DIR, { recursive: true })
+    await writeFile(getCachePath(videoId), JSON.stringify(info))
+  } catch (error: any) {
+    // A missing cache only costs another extraction
+    console.error('Failed to cache video info:', error.message)
+  }
+}
+
+// Run yt-dlp --dump-json for a single video
+function extractVideoInfo(url: string, signal: AbortSignal): Promise<any> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Lookup cancelled'))
+      return
+    }
+
+    const infoProcess = spawn(getYtdlpPath(), [...getCookieArgs(), '--dump-json', '--no-download', '--no-playlist', url], {
+      env: {
+        ...process.env,
+        PATH: `${getTuberunDir()}${PATH_SEPARATOR}${process.env.PATH}`,
+      },
+    })
+
+    let output = ''
+    let errorOutput = ''
+    let timedOut = false
+
+    const timeout = setTimeout(() => {
+      timedOut = true
+      infoProcess.kill(isWindows ? 'SIGKILL' : 'SIGTERM')
+    }, INFO_TIMEOUT_MS)
+
+    const onAbort = () => {
+      infoProcess.kill(isWindows ? 'SIGKILL' : 'SIGTERM')
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    infoProcess.stdout.on('data', (data) => {
+      output += data.toString()
+    })
+
+    infoProcess.stderr.on('data', (data) => {
+      // Cap error string to prevent memory issues
+      if (errorOutput.length < 10000) {
+        errorOutput += data.toString()
+      }
+    })
+
+    infoProcess.on('close', (code) => {
+      clearTimeout(timeout)
+      signal.removeEventListener('abort', onAbort)
+
+      if (signal.aborted) {
+        reject(new Error('Lookup cancelled'))
+        return
+      }
+      if (timedOut) {
+        reject(new Error('Fetching video info timed out. Please try again.'))
+        return
+      }
+      if (code !== 0) {
+        reject(new Error(errorOutput || 'Failed to get video info'))
+        return
+      }
+
+      try {
+        resolve(JSON.parse(output))
+      } catch (err: any) {
+        reject(new Error(`Failed to parse video info: ${err.message}`))
+      }
+    })
+
+    infoProcess.on('error', (err) => {
+      clearTimeout(timeout)
+      signal.removeEventListener('abort', onAbort)
+      reject(new Error(`Failed to start yt-dlp: ${err.message}`))
+    })
+  })
+}
+
+// Info JSON for a video, from the cache when it was extracted recently.
+// Only URLs with a recognizable video id are cached. A caller passing a signal stops
+// waiting when it fires; the extraction itself stops once no caller waits for it.
+export function loadVideoInfo(url: string, signal?: AbortSignal): Promise<VideoInfoResult> {
+  if (signal?.aborted) {
+    return Promise.reject(new Error('Lookup cancelled'))
+  }
+
+  const videoId = extractVideoId(url)
+  let lookup = videoId ? pendingLookups.get(videoId) : undefined
+  if (!lookup) {
+    const controller = new AbortController()
+    const started: PendingLookup = {
+      promise: fetchVideoInfo(url, videoId, controller.signal),
+      controller,
+      waiting: 0,
+    }
+    if (videoId) {
+      pendingLookups.set(videoId, started)
+      const forget = () => {
+        if (pendingLookups.get(videoId) === started) pendingLookups.delete(videoId)
+      }
+      started.promise.then(forget, forget)
+      // An abandoned lookup isn't shared with later callers
+      controller.signal.addEventListener('abort', forget, { once: true })
+    }
+    lookup = started
+  }
+
+  return waitForLookup(lookup, signal)
+}
+
+function waitForLookup(lookup: PendingLookup, signal?: AbortSignal): Promise<VideoInfoResult> {
+  lookup.waiting++
+  if (!signal) return lookup.promise
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(new Error('Lookup cancelled'))
+      lookup.waiting--
+      if (lookup.waiting === 0) {
+        lookup.controller.abort()
+      }
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    lookup.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+async function fetchVideoInfo(url: string, videoId: string | null, signal: AbortSignal): Promise<VideoInfoResult> {
+  const startedAt = Date.now()
+
+  if (videoId) {
+    const cached = await readCachedInfo(videoId, startedAt)
+    if (cached) {
+      return { info: cached, cached: true, fetchMs: 0 }
+    }
+  }
+
+  const info = await extractVideoInfo(url, signal)
+  const fetchMs = Date.now() - startedAt
+  if (videoId && info.id === videoId) {
+    await writeCachedInfo(videoId, info)
+  }
+  return { info, cached: false, fetchMs }
+}
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+// Audio-only streams of a video, best bitrate first
+export function getAudioStreams(info: any): AudioStreamInfo[] {
+  if (!Array.isArray(info.formats)) return []
+
+  return info.formats
+    .filter((f: any) => f && typeof f.format_id === 'string' && f.vcodec === 'none' && f.acodec && f.acodec !== 'none')
+    .map((f: any): AudioStreamInfo => ({
+      formatId: f.format_id,
+      codec: f.acodec,
+      ext: f.ext,
+      bitrate: toNumber(f.abr) ?? toNumber(f.tbr),
+      language: typeof f.language === 'string' ? f.language : undefined,
+      filesize: toNumber(f.filesize) ?? toNumber(f.filesize_approx),
+    }))
+    .sort((a: AudioStreamInfo, b: AudioStreamInfo) => (b.bitrate ?? 0) - (a.bitrate ?? 0))
+}
+
+export async function getVideoInfo(url: string, signal?: AbortSignal): Promise<VideoPreview> {
+  const { info } = await loadVideoInfo(url, signal)
+  const audioFormats = getAudioStreams(info)
+
+  // Sizes of the selected streams, yt-dlp reports the total for merged selections
+  const videoSize = toNumber(info.filesize) ?? toNumber(info.filesize_approx) ?? (
+    Array.isArray(info.requested_formats)
+      ? info.requested_formats.reduce(
+        (total: number, f: any) => total + (toNumber(f.filesize) ?? toNumber(f.filesize_approx) ?? 0),
+        0
+      ) || undefined
+      : undefined
+  )
+
+  return {
+    id: info.id,
+    title: info.title || 'Unknown',
+    channel: info.channel || info.uploader || undefined,
+    duration: toNumber(info.duration),
+    thumbnail: typeof info.thumbnail === 'string' ? info.thumbnail : undefined,
+    chapters: Array.isArray(info.chapters)
+      ? info.chapters.map((chapter: any) => ({
+        title: chapter.title || '',
+        start: chapter.start_time,
+        end: chapter.end_time,
+      }))
+      : [],
+    audioFormats,
+    estimatedSize: {
+      audio: audioFormats[0]?.filesize,
+      video: videoSize,
+    },
+  }
+}
+
+// Drop a cached entry, e.g. when its stream URLs were refused
+export async function invalidateVideoInfo(url: string): Promise<void> {
+  const videoId = extractVideoId(url)
+  if (videoId) {
+    await rm(getCachePath(videoId), { force: true }).catch(() => {})
+  }
+}
+
+// Remove expired entries, returns how many were removed
+export async function pruneVideoInfoCache(now: number = Date.now()): Promise<number> {
+  let names: string[]
+  try {
+    names = await readdir(INFO_CACHE_DIR)
+  } catch {
+    return 0
+  }
+
+  let removed = 0
+  for (const name of names) {
+    try {
+      const path = join(INFO_CACHE_DIR, name)
+      if (now - (await stat(path)).mtimeMs < INFO_CACHE_TTL_MS) continue
+      await rm(path, { force: true })
+      removed++
+    } catch {
+      // Leave it for the next cleanup
+    }
+  }
+  return removed
+}
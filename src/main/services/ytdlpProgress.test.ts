@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseProgressLine, createLineBuffer, formatSpeed, formatEta } from './ytdlpProgress'
+
+const downloadLine = (progress: object) => `[tuberun:download] ${JSON.stringify(progress)}`
+
+describe('parseProgressLine', () => {
+  it('parses a download progress line', () => {
+    const line = downloadLine({
+      status: 'downloading',
+      filename: '/tmp/video.webm',
+      downloaded_bytes: 1024,
+      total_bytes: 4096,
+      speed: 512.5,
+      eta: 6,
+    })
+    expect(parseProgressLine(line)).toEqual({
+      type: 'download',
+      status: 'downloading',
+      filename: '/tmp/video.webm',
+      downloadedBytes: 1024,
+      totalBytes: 4096,
+      speedBps: 512.5,
+      etaSeconds: 6,
+    })
+  })
+
+  it('uses the size estimate when the exact size is unknown and ignores missing numbers', () => {
+    const line = downloadLine({ status: 'downloading', downloaded_bytes: 10, total_bytes: null, total_bytes_estimate: 900, speed: null, eta: null })
+    expect(parseProgressLine(line)).toMatchObject({ totalBytes: 900, speedBps: undefined, etaSeconds: undefined })
+  })
+
+  it('parses a postprocess line', () => {
+    expect(parseProgressLine('[tuberun:postprocess] {"status": "started", "postprocessor": "Merger"}')).toEqual({
+      type: 'postprocess',
+      status: 'started',
+      postprocessor: 'Merger',
+    })
+  })
+
+  it('returns null for other output', () => {
+    expect(parseProgressLine('[youtube] abc123: Downloading webpage')).toBeNull()
+    expect(parseProgressLine('[download]  45.0% of 10.00MiB')).toBeNull()
+    expect(parseProgressLine('[tuberun:download] {"status": "downloading"')).toBeNull()
+    expect(parseProgressLine('[tuberun:download] null')).toBeNull()
+    expect(parseProgressLine('[tuberun:download] {"downloaded_bytes": 10}')).toBeNull()
+  })
+})
+
+describe('createLineBuffer', () => {
+  it('holds a partial line until the rest arrives', () => {
+    const onLine = vi.fn()
+    const push = createLineBuffer(onLine)
+
+    push('[tuberun:download] {"status": "downl')
+    expect(onLine).not.toHaveBeenCalled()
+
+    push(Buffer.from('oading"}\n'))
+    expect(onLine).toHaveBeenCalledWith('[tuberun:download] {"status": "downloading"}')
+    expect(parseProgressLine(onLine.mock.calls[0][0])).toMatchObject({ status: 'downloading' })
+  })
+
+  it('splits a chunk holding several lines', () => {
+    const onLine = vi.fn()
+    createLineBuffer(onLine)('first\r\nsecond\n\n  \nthird\n')
+    expect(onLine.mock.calls.map(([line]) => line)).toEqual(['first', 'second', 'third'])
+  })
+
+  it('passes non-progress lines through for the caller to skip', () => {
+    const lines: string[] = []
+    const push = createLineBuffer((line) => lines.push(line))
+    push('[youtube] abc123: Downloading webpage\n[tuberun:download] {"status": "finished"}\nWARNING: ')
+    push('something\n')
+
+    expect(lines).toEqual(['[youtube] abc123: Downloading webpage', '[tuberun:download] {"status": "finished"}', 'WARNING: something'])
+    expect(lines.map(parseProgressLine).filter(Boolean)).toEqual([{ type: 'download', status: 'finished' }])
+  })
+})
+
+describe('formatSpeed', () => {
+  it('shows KB/s below a megabyte and MB/s above', () => {
+    expect(formatSpeed(512 * 1024)).toBe('512 KB/s')
+    expect(formatSpeed(2.5 * 1024 * 1024)).toBe('2.5 MB/s')
+  })
+})
+
+describe('formatEta', () => {
+  it('adds hours only when needed', () => {
+    expect(formatEta(250)).toBe('04:10')
+    expect(formatEta(3725)).toBe('1:02:05')
+    expect(formatEta(-3)).toBe('00:00')
+  })
+})
@@ -0,0 +1,92 @@
+// yt-dlp prints progress through these templates instead of its human-readable lines,
+// one JSON object per line behind a marker so it can't be confused with other output
+const DOWNLOAD_MARKER = '[tuberun:download]'
+const POSTPROCESS_MARKER = '[tuberun:postprocess]'
+
+export const PROGRESS_TEMPLATE_ARGS = [
+  '--progress',
+  '--newline',
+  '--progress-template', `download:${DOWNLOAD_MARKER} %(progress)j`,
+  '--progress-template', `postprocess:${POSTPROCESS_MARKER} %(progress)j`,
+]
+
+export interface TransferProgress {
+  type: 'download'
+  status: 'downloading' | 'finished' | 'error'
+  filename?: string
+  downloadedBytes?: number
+  totalBytes?: number // exact size, or yt-dlp's estimate for fragmented streams
+  speedBps?: number
+  etaSeconds?: number
+}
+
+export interface PostprocessProgress {
+  type: 'postprocess'
+  status: 'started' | 'processing' | 'finished'
+  postprocessor: string // e.g. 'Merger', 'ExtractAudio', 'EmbedThumbnail'
+}
+
+export type YtdlpProgress = TransferProgress | PostprocessProgress
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+// Parse one line of yt-dlp output, null for anything that isn't a progress line
+export function parseProgressLine(line: string): YtdlpProgress | null {
+  const marker = [DOWNLOAD_MARKER, POSTPROCESS_MARKER].find((m) => line.startsWith(m))
+  if (!marker) return null
+
+  let data: any
+  try {
+    data = JSON.parse(line.slice(marker.length))
+  } catch {
+    return null
+  }
+  if (!data || typeof data !== 'object' || typeof data.status !== 'string') return null
+
+  if (marker === POSTPROCESS_MARKER) {
+    return {
+      type: 'postprocess',
+      status: data.status,
+      postprocessor: typeof data.postprocessor === 'string' ? data.postprocessor : '',
+    }
+  }
+
+  return {
+    type: 'download',
+    status: data.status,
+    filename: typeof data.filename === 'string' ? data.filename : undefined,
+    downloadedBytes: toNumber(data.downloaded_bytes),
+    totalBytes: toNumber(data.total_bytes) ?? toNumber(data.total_bytes_estimate),
+    speedBps: toNumber(data.speed),
+    etaSeconds: toNumber(data.eta),
+  }
+}
+
+// Calls onLine for each complete line, output chunks can end mid-line or hold several lines
+export function createLineBuffer(onLine: (line: string) => void): (data: Buffer | string) => void {
+  let pending = ''
+  return (data) => {
+    const lines = (pending + data.toString()).split(/\r?\n/)
+    pending = lines.pop() ?? ''
+    for (const line of lines) {
+      if (line.trim()) onLine(line.trim())
+    }
+  }
+}
+
+// "2.3 MB/s", "512 KB/s"
+export function formatSpeed(bytesPerSecond: number): string {
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / 1024 / 1024).toFixed(1)} MB/s`
+  return `${Math.round(bytesPerSecond / 1024)} KB/s`
+}
+
+// "1:02:05", "04:10"
+export function formatEta(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`
+  return h > 0 ? `${h}:${mmss}` : mmss
+}
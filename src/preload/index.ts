@@ -10,11 +10,29 @@ contextBridge.exposeInMainWorld('api', {
   // Shell operations
   openPath: (path: string) => ipcRenderer.invoke('shell:open-path', path),
   showItemInFolder: (path: string) => ipcRenderer.invoke('shell:show-item-in-folder', path),
+  selectFolder: () => ipcRenderer.invoke('dialog:select-folder'),
 
   // Download operations
-  startDownload: (url: string, options: DownloadOptions) =>
-    ipcRenderer.invoke('download:start', url, options),
+  startDownload: (url: string, options: DownloadOptions, allowDuplicate?: boolean) =>
+    ipcRenderer.invoke('download:start', url, options, allowDuplicate),
   cancelDownload: (id: string) => ipcRenderer.invoke('download:cancel', id),
+  pauseDownload: (id: string) => ipcRenderer.invoke('download:pause', id),
+  resumeDownload: (id: string) => ipcRenderer.invoke('download:resume', id),
+  retryDownload: (id: string, options?: DownloadOptions) => ipcRenderer.invoke('download:retry', id, options),
+  resolveCollision: (id: string, decision: 'skip' | 'rename' | 'overwrite') =>
+    ipcRenderer.invoke('download:resolve-collision', id, decision),
+  startPlaylistDownload: (
+    playlist: { id: string; title: string; count: number },
+    entries: PlaylistEntry[],
+    options: DownloadOptions
+  ) => ipcRenderer.invoke('download:start-playlist', playlist, entries, options),
+  cancelDownloadGroup: (groupId: string) => ipcRenderer.invoke('download:cancel-group', groupId),
+
+  // Playlist operations
+  expandPlaylist: (url: string) => ipcRenderer.invoke('playlist:expand', url),
+
+  // Video info
+  getVideoInfo: (url: string) => ipcRenderer.invoke('video:get-info', url),
 
   // Download progress listener
   onDownloadProgress: (callback: (progress: EnhancedDownloadProgress) => void) => {
@@ -30,6 +48,18 @@ contextBridge.exposeInMainWorld('api', {
   // Queue operations
   getQueueStatus: () => ipcRenderer.invoke('queue:get-status'),
   cancelAllDownloads: () => ipcRenderer.invoke('queue:cancel-all'),
+  reorderQueue: (ids: string[]) => ipcRenderer.invoke('queue:reorder', ids),
+  moveInQueue: (id: string, to: 'top' | 'bottom') => ipcRenderer.invoke('queue:move', id, to),
+  downloadNext: (id: string) => ipcRenderer.invoke('queue:download-next', id),
+  onQueueUpdated: (callback: (status: QueueStatus) => void) => {
+    const subscription = (_event: Electron.IpcRendererEvent, status: QueueStatus) => {
+      callback(status)
+    }
+    ipcRenderer.on('queue:updated', subscription)
+    return () => {
+      ipcRenderer.removeListener('queue:updated', subscription)
+    }
+  },
 
   // Setup operations
   checkDependencies: () => ipcRenderer.invoke('setup:check-dependencies'),
@@ -48,34 +78,107 @@ contextBridge.exposeInMainWorld('api', {
   getHistory: () => ipcRenderer.invoke('history:get'),
   clearHistory: () => ipcRenderer.invoke('history:clear'),
 
+  // Subscription operations
+  getSubscriptions: () => ipcRenderer.invoke('subscriptions:get'),
+  addSubscription: (url: string, preset: SubscriptionPreset, includeExisting: boolean) =>
+    ipcRenderer.invoke('subscriptions:add', url, preset, includeExisting),
+  updateSubscription: (id: string, changes: { preset?: SubscriptionPreset; enabled?: boolean }) =>
+    ipcRenderer.invoke('subscriptions:update', id, changes),
+  removeSubscription: (id: string) => ipcRenderer.invoke('subscriptions:remove', id),
+  checkSubscriptions: (id?: string) => ipcRenderer.invoke('subscriptions:check', id),
+  onSubscriptionsUpdated: (callback: (subscriptions: Subscription[]) => void) => {
+    const subscription = (_event: Electron.IpcRendererEvent, subscriptions: Subscription[]) => {
+      callback(subscriptions)
+    }
+    ipcRenderer.on('subscriptions:updated', subscription)
+    return () => {
+      ipcRenderer.removeListener('subscriptions:updated', subscription)
+    }
+  },
+
   // Settings operations
   getDownloadSettings: () => ipcRenderer.invoke('settings:get-download'),
   updateDownloadSettings: (settings: Partial<DownloadSettings>) =>
     ipcRenderer.invoke('settings:update-download', settings),
+  previewFilename: (template: string) => ipcRenderer.invoke('settings:preview-filename', template),
+
+  // Cookies for restricted videos
+  getCookieStatus: () => ipcRenderer.invoke('cookies:get-status'),
+  importCookieFile: () => ipcRenderer.invoke('cookies:import-file'),
+  importBrowserCookies: (browser: CookieBrowser, profileDir?: string) =>
+    ipcRenderer.invoke('cookies:import-browser', browser, profileDir),
+  testCookies: () => ipcRenderer.invoke('cookies:test'),
+  removeCookies: () => ipcRenderer.invoke('cookies:remove'),
 })
 
 // Type definitions for the exposed API
 interface DownloadOptions {
-  quality: '128' | '192' | '256' | '320'
-  speed: number
+  mode: 'audio' | 'video'
+  format: 'mp3' | 'm4a' | 'opus' | 'ogg' | 'flac' | 'wav'
+  quality: '128' | '192' | '256' | '320' // kbps, ignored for lossless formats
+  speed: number // 0.25 - 4
+  pitch?: number // semitones, -12 - 12
+  audioSource?:
+    | { kind: 'format'; formatId: string }
+    | { kind: 'rule'; codec?: 'opus' | 'aac'; maxBitrate?: number; language?: string }
   outputDir?: string
-  rateLimit?: number // KB/s, 0 = unlimited
+  rateLimit?: number // KB/s cap for this download within the shared budget, 0 = none
+  embedMetadata?: boolean
+  cropThumbnail?: boolean
+  splitChapters?: boolean
+  startTime?: number | string // seconds or "1:02:03"
+  endTime?: number | string
+  normalize?: 'podcast' | 'music' | 'broadcast' | 'off'
+  videoContainer?: 'mp4' | 'mkv'
+  maxHeight?: number
+  embedSubtitles?: boolean
+  subtitleLanguage?: string
+  subtitleFormats?: ('srt' | 'vtt' | 'txt' | 'lrc')[]
+  autoSubtitles?: boolean
+  notBefore?: number // epoch ms
 }
 
 interface EnhancedDownloadProgress {
   id: string
-  status: 'pending' | 'queued' | 'downloading' | 'converting' | 'complete' | 'error' | 'retrying'
+  status: 'pending' | 'queued' | 'scheduled' | 'downloading' | 'converting' | 'complete' | 'error' | 'retrying' | 'paused'
   percent: number
+  phase?:
+    | 'fetching-info'
+    | 'downloading'
+    | 'extracting'
+    | 'post-processing'
+    | 'merging'
+    | 'analyzing-loudness'
+    | 'normalizing'
+    | 'speed-adjust'
+    | 'splitting'
+    | 'subtitles'
+    | 'collision'
   speed?: string
   speedBps?: number
   eta?: string
   etaSeconds?: number
+  downloadedBytes?: number
+  totalBytes?: number
   title?: string
   error?: string
+  errorType?: DownloadErrorType
+  retryable?: boolean
+  attempts?: DownloadAttempt[]
+  stderrTail?: string
   outputPath?: string
   retryCount?: number
   maxRetries?: number
   queuePosition?: number
+  startsAt?: number
+  trackIndex?: number
+  trackCount?: number
+  streamIndex?: number
+  streamCount?: number
+  groupId?: string
+  groupTitle?: string
+  collision?: 'skipped' | 'renamed' | 'overwritten'
+  conflictPath?: string
 }
 
 interface SetupProgress {
@@ -90,12 +193,32 @@ interface DownloadSettings {
   maxRetries: number
   downloadTimeout: number
   bandwidthLimit: number
+  bandwidthProfiles: { start: number; end: number; limit: number }[] // minutes after midnight, KB/s
   autoRetry: boolean
+  embedMetadata: boolean
+  cropThumbnail: boolean
+  normalization: 'podcast' | 'music' | 'broadcast' | 'off'
+  filenameTemplate: string
+  playlistFilenameTemplate: string
+  collisionPolicy: 'skip' | 'rename' | 'overwrite' | 'ask'
+  duplicateHandling: 'warn' | 'skip' | 'off'
+  keepPartialDays: number
+  downloadWindow: { start: number; end: number } | null // minutes after midnight
+}
+
+interface StartDownloadResult {
+  id?: string
+  // Set instead of id when the video was already downloaded with the same options
+  duplicate?: {
+    match: DownloadHistory
+    action: 'warn' | 'skip'
+  }
 }
 
 interface QueuedDownload {
   id: string
   url: string
+  options: DownloadOptions
   status: 'queued' | 'active' | 'paused' | 'completed' | 'error'
   retryCount: number
   maxRetries: number
@@ -104,6 +227,7 @@ interface QueuedDownload {
   priority: number
   title?: string
   error?: string
+  groupId?: string
 }
 
 interface QueueStatus {
@@ -121,27 +245,165 @@ declare global {
       getPath: (name: string) => Promise<string>
       openPath: (path: string) => Promise<string>
       showItemInFolder: (path: string) => Promise<void>
-      startDownload: (url: string, options: DownloadOptions) => Promise<string>
+      selectFolder: () => Promise<string | null>
+      startDownload: (url: string, options: DownloadOptions, allowDuplicate?: boolean) => Promise<StartDownloadResult>
       cancelDownload: (id: string) => Promise<void>
+      pauseDownload: (id: string) => Promise<boolean>
+      resumeDownload: (id: string) => Promise<boolean>
+      retryDownload: (id: string, options?: DownloadOptions) => Promise<boolean>
+      resolveCollision: (id: string, decision: 'skip' | 'rename' | 'overwrite') => Promise<boolean>
+      startPlaylistDownload: (
+        playlist: { id: string; title: string; count: number },
+        entries: PlaylistEntry[],
+        options: DownloadOptions
+      ) => Promise<{ groupId: string; ids: string[] }>
+      cancelDownloadGroup: (groupId: string) => Promise<string[]>
+      expandPlaylist: (url: string) => Promise<PlaylistInfo>
+      getVideoInfo: (url: string) => Promise<VideoPreview>
       onDownloadProgress: (callback: (progress: EnhancedDownloadProgress) => void) => () => void
       getQueueStatus: () => Promise<QueueStatus>
       cancelAllDownloads: () => Promise<void>
+      reorderQueue: (ids: string[]) => Promise<boolean>
+      moveInQueue: (id: string, to: 'top' | 'bottom') => Promise<boolean>
+      downloadNext: (id: string) => Promise<boolean>
+      onQueueUpdated: (callback: (status: QueueStatus) => void) => () => void
       checkDependencies: () => Promise<{ ready: boolean; missing: string[] }>
       downloadDependencies: () => Promise<void>
       onSetupProgress: (callback: (progress: SetupProgress) => void) => () => void
       getHistory: () => Promise<DownloadHistory[]>
       clearHistory: () => Promise<void>
+      getSubscriptions: () => Promise<Subscription[]>
+      addSubscription: (url: string, preset: SubscriptionPreset, includeExisting: boolean) => Promise<Subscription>
+      updateSubscription: (
+        id: string,
+        changes: { preset?: SubscriptionPreset; enabled?: boolean }
+      ) => Promise<Subscription | undefined>
+      removeSubscription: (id: string) => Promise<boolean>
+      checkSubscriptions: (id?: string) => Promise<number | null>
+      onSubscriptionsUpdated: (callback: (subscriptions: Subscription[]) => void) => () => void
       getDownloadSettings: () => Promise<DownloadSettings>
       updateDownloadSettings: (settings: Partial<DownloadSettings>) => Promise<DownloadSettings>
+      previewFilename: (template: string) => Promise<{ path?: string; error?: string }>
+      getCookieStatus: () => Promise<CookieStatus>
+      importCookieFile: () => Promise<CookieStatus | null>
+      importBrowserCookies: (browser: CookieBrowser, profileDir?: string) => Promise<CookieStatus>
+      testCookies: () => Promise<CookieTestResult>
+      removeCookies: () => Promise<void>
     }
   }
 
+  type DownloadErrorType =
+    | 'network'
+    | 'video_not_found'
+    | 'video_private'
+    | 'age_restricted'
+    | 'rate_limited'
+    | 'ffmpeg_error'
+    | 'disk_full'
+    | 'timeout'
+    | 'cancelled'
+    | 'unknown'
+
+  interface DownloadAttempt {
+    attempt: number // 0 = the first try
+    startedAt: number
+    endedAt: number
+    errorType: DownloadErrorType
+    error: string
+  }
+
   interface DownloadHistory {
     id: string
     url: string
     title: string
     outputPath: string
     timestamp: number
+    trackCount?: number
+    startTime?: number
+    endTime?: number
+    speed?: number
+    pitch?: number
+    mode?: 'audio' | 'video'
+    maxHeight?: number
+    sidecars?: string[]
+    collision?: 'skipped' | 'renamed' | 'overwritten'
+    videoId?: string
+    optionsKey?: string
+  }
+
+  interface SubscriptionPreset {
+    mode: 'audio' | 'video'
+    format: 'mp3' | 'm4a' | 'opus' | 'ogg' | 'flac' | 'wav'
+    quality: '128' | '192' | '256' | '320'
+    speed: number
+    outputDir?: string
+  }
+
+  interface Subscription {
+    id: string
+    url: string
+    kind: 'channel' | 'playlist'
+    title: string
+    preset: SubscriptionPreset
+    enabled: boolean
+    createdAt: number
+    lastCheckedAt?: number
+    lastError?: string
+    lastNewCount?: number
+  }
+
+  interface PlaylistEntry {
+    id: string
+    url: string
+    title: string
+    index: number
+    duration?: number
+    downloaded?: boolean
+  }
+
+  interface PlaylistInfo {
+    id: string
+    title: string
+    uploader?: string
+    entries: PlaylistEntry[]
+  }
+
+  interface AudioStreamInfo {
+    formatId: string
+    codec: string
+    ext: string
+    bitrate?: number // kbps
+    language?: string
+    filesize?: number // bytes
+  }
+
+  interface VideoPreview {
+    id: string
+    title: string
+    channel?: string
+    duration?: number // seconds
+    thumbnail?: string
+    chapters: { title: string; start: number; end: number }[]
+    audioFormats: AudioStreamInfo[]
+    estimatedSize: { audio?: number; video?: number } // bytes
+  }
+
+  type CookieBrowser = 'brave' | 'chrome' | 'chromium' | 'edge' | 'firefox' | 'opera' | 'safari' | 'vivaldi'
+
+  interface CookieStatus {
+    configured: boolean
+    source?: string // file name, or browser and profile the cookies came from
+    addedAt?: number
+    cookieCount?: number
+    signedIn?: boolean
+  }
+
+  interface CookieTestResult {
+    ok: boolean
+    cookieCount: number
+    expiredCount: number
+    signedIn: boolean
+    error?: string
   }
 }
 
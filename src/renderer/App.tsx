@@ -1,36 +1,125 @@
 import { useState, useEffect, useRef } from 'react'
-import URLInput from './components/URLInput'
+import URLInput, { isPlaylistURL, isVideoURL } from './components/URLInput'
 import SpeedSelector from './components/SpeedSelector'
+import PitchSelector from './components/PitchSelector'
 import QualitySelector from './components/QualitySelector'
+import ClipRangeInput from './components/ClipRangeInput'
+import { getClipInputError } from '../shared/clip'
+import FormatSelector, { AudioFormat, formats, isLosslessFormat } from './components/FormatSelector'
+import ModeSelector, { MediaMode } from './components/ModeSelector'
+import VideoOptions, { VideoContainer } from './components/VideoOptions'
+import SubtitleOptions, { SubtitleSelection } from './components/SubtitleOptions'
 import DownloadButton from './components/DownloadButton'
-import ProgressBar from './components/ProgressBar'
+import ProgressBar, { ProcessingPhase } from './components/ProgressBar'
 import AudioPlayer from './components/AudioPlayer'
 import HistoryList from './components/HistoryList'
 import SetupProgress from './components/SetupProgress'
 import SettingsPanel from './components/SettingsPanel'
+import PlaylistPicker from './components/PlaylistPicker'
+import SubscriptionsPanel from './components/SubscriptionsPanel'
+import DuplicateNotice from './components/DuplicateNotice'
+import QueuePanel from './components/QueuePanel'
+import ScheduleInput from './components/ScheduleInput'
+import VideoPreviewCard from './components/VideoPreviewCard'
+import AudioSourceSelector, { AudioSource, DEFAULT_AUDIO_SOURCE } from './components/AudioSourceSelector'
 
 interface DownloadState {
   id: string
-  status: 'queued' | 'downloading' | 'converting' | 'complete' | 'error' | 'retrying'
+  status: 'queued' | 'scheduled' | 'downloading' | 'converting' | 'complete' | 'error' | 'retrying' | 'paused'
   percent: number
+  phase?: ProcessingPhase
   title: string
   outputPath: string | null
   error: string | null
   speed?: string
   eta?: string
+  downloadedBytes?: number
+  totalBytes?: number
   queuePosition?: number
+  startsAt?: number
   retryCount?: number
   maxRetries?: number
+  trackIndex?: number
+  trackCount?: number
+  streamIndex?: number
+  streamCount?: number
+  groupId?: string
+  groupTitle?: string
+  collision?: 'skipped' | 'renamed' | 'overwritten'
+  conflictPath?: string
+  errorType?: DownloadErrorType
+  retryable?: boolean
+  attempts?: DownloadAttempt[]
+  stderrTail?: string
 }
 
+// Wait for typing to settle before looking up a video
+const PREVIEW_DEBOUNCE_MS = 500
+
+// Video files get a video element instead of the audio player
+const isVideoFile = (path: string) => /\.(mp4|mkv)$/i.test(path)
+
+// Headline of an error card
+const errorLabels: Record<DownloadErrorType, string> = {
+  network: 'Network error',
+  video_not_found: 'Video unavailable',
+  video_private: 'Private video',
+  age_restricted: 'Age-restricted video',
+  rate_limited: 'Rate limited',
+  ffmpeg_error: 'Conversion failed',
+  disk_full: 'Disk full',
+  timeout: 'Download timed out',
+  cancelled: 'Download cancelled',
+  unknown: 'Download failed',
+}
+
+// Plain text summary of a failed download for bug reports
+const formatErrorDetails = (download: DownloadState): string =>
+  [
+    `Title: ${download.title || 'Unknown'}`,
+    `Error: ${download.error || 'Download failed'} (${download.errorType ?? 'unknown'})`,
+    ...(download.attempts && download.attempts.length > 0 ? [
+      'Attempts:',
+      ...download.attempts.map((a) =>
+        `  ${a.attempt + 1}. ${new Date(a.startedAt).toISOString()} ${Math.round((a.endedAt - a.startedAt) / 1000)}s ${a.errorType}: ${a.error}`
+      ),
+    ] : []),
+    ...(download.stderrTail ? ['Output:', download.stderrTail] : []),
+  ].join('\n')
+
 function App() {
   const [isReady, setIsReady] = useState(false)
   const [isSetupInProgress, setIsSetupInProgress] = useState(false)
   const [url, setUrl] = useState('')
   const [speed, setSpeed] = useState(1)
+  const [pitch, setPitch] = useState(0)
   const [quality, setQuality] = useState<'128' | '192' | '256' | '320'>('320')
+  const [format, setFormat] = useState<AudioFormat>('mp3')
+  const [audioSource, setAudioSource] = useState<AudioSource>(DEFAULT_AUDIO_SOURCE)
+  const [mode, setMode] = useState<MediaMode>('audio')
+  const [videoOptions, setVideoOptions] = useState<{
+    container: VideoContainer
+    maxHeight: number
+    embedSubtitles: boolean
+  }>({ container: 'mp4', maxHeight: 1080, embedSubtitles: false })
+  const [splitChapters, setSplitChapters] = useState(false)
+  const [clipRange, setClipRange] = useState({ start: '', end: '' })
+  // Kept between downloads so a whole batch can be scheduled
+  const [startAt, setStartAt] = useState('')
+  const [subtitles, setSubtitles] = useState<SubtitleSelection>({ language: 'en', formats: [], allowAuto: true })
   const [downloads, setDownloads] = useState<Map<string, DownloadState>>(new Map())
   const [showSettings, setShowSettings] = useState(false)
+  const [showSubscriptions, setShowSubscriptions] = useState(false)
+  const [showQueue, setShowQueue] = useState(false)
+  const [playlist, setPlaylist] = useState<PlaylistInfo | null>(null)
+  const [isExpanding, setIsExpanding] = useState(false)
+  const [expandError, setExpandError] = useState<string | null>(null)
+  const [startError, setStartError] = useState<string | null>(null)
+  const [duplicate, setDuplicate] = useState<{ match: DownloadHistory; action: 'warn' | 'skip' } | null>(null)
+  const [preview, setPreview] = useState<VideoPreview | null>(null)
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [copiedErrorId, setCopiedErrorId] = useState<string | null>(null)
   // Track downloads scheduled for removal to prevent duplicate timeouts
   const pendingRemovalRef = useRef<Set<string>>(new Set())
   // Track timeout IDs for cleanup on unmount
@@ -48,11 +137,12 @@ function App() {
         const updated = new Map(prev)
 
         if (progress.status === 'complete' || progress.status === 'error') {
-          // Keep completed/error downloads for a short time then remove
+          // Keep completed downloads for a short time then remove, errors stay until dismissed
           updated.set(progress.id, {
             id: progress.id,
             status: progress.status,
             percent: progress.percent,
+            phase: progress.phase,
             title: progress.title || '',
             outputPath: progress.outputPath || null,
             error: progress.error || null,
@@ -61,10 +151,22 @@ function App() {
             queuePosition: progress.queuePosition,
             retryCount: progress.retryCount,
             maxRetries: progress.maxRetries,
+            trackIndex: progress.trackIndex,
+            trackCount: progress.trackCount,
+            streamIndex: progress.streamIndex,
+            streamCount: progress.streamCount,
+            groupId: progress.groupId,
+            groupTitle: progress.groupTitle,
+            collision: progress.collision,
+            conflictPath: progress.conflictPath,
+            errorType: progress.errorType,
+            retryable: progress.retryable,
+            attempts: progress.attempts,
+            stderrTail: progress.stderrTail,
           })
 
           // Remove after 5 seconds (only schedule once per download)
-          if (!pendingRemovalRef.current.has(progress.id)) {
+          if (progress.status === 'complete' && !pendingRemovalRef.current.has(progress.id)) {
             pendingRemovalRef.current.add(progress.id)
             const timeoutId = setTimeout(() => {
               pendingRemovalRef.current.delete(progress.id)
@@ -81,26 +183,41 @@ function App() {
           // Map progress status to download state status
           const mapStatus = (status: string): DownloadState['status'] => {
             if (status === 'pending' || status === 'queued') return 'queued'
+            if (status === 'scheduled') return 'scheduled'
             if (status === 'downloading') return 'downloading'
             if (status === 'converting') return 'converting'
             if (status === 'retrying') return 'retrying'
             if (status === 'complete') return 'complete'
             if (status === 'error') return 'error'
+            if (status === 'paused') return 'paused'
             return 'queued'
           }
 
           updated.set(progress.id, {
             id: progress.id,
             status: mapStatus(progress.status),
-            percent: progress.percent,
+            // Paused downloads keep showing how far they got
+            percent: progress.status === 'paused' ? prev.get(progress.id)?.percent ?? 0 : progress.percent,
+            phase: progress.phase,
             title: progress.title || '',
             outputPath: progress.outputPath || null,
             error: progress.error || null,
             speed: progress.speed,
             eta: progress.eta,
+            downloadedBytes: progress.downloadedBytes,
+            totalBytes: progress.totalBytes,
             queuePosition: progress.queuePosition,
+            startsAt: progress.startsAt,
             retryCount: progress.retryCount,
             maxRetries: progress.maxRetries,
+            trackIndex: progress.trackIndex,
+            trackCount: progress.trackCount,
+            streamIndex: progress.streamIndex,
+            streamCount: progress.streamCount,
+            groupId: progress.groupId,
+            groupTitle: progress.groupTitle,
+            collision: progress.collision,
+            conflictPath: progress.conflictPath,
           })
         }
 
@@ -117,6 +234,50 @@ function App() {
     }
   }, [])
 
+  // Preview the video behind the URL; a lookup for a URL that has since changed is dropped
+  useEffect(() => {
+    setPreview(null)
+    setPreviewError(null)
+    setStartError(null)
+    const trimmed = url.trim()
+    if (!isReady || !isVideoURL(trimmed)) {
+      setIsLoadingPreview(false)
+      return
+    }
+
+    let isCurrent = true
+    setIsLoadingPreview(true)
+    const timeoutId = setTimeout(() => {
+      window.api.getVideoInfo(trimmed)
+        .then((info) => {
+          if (isCurrent) setPreview(info)
+        })
+        .catch((error) => {
+          // A lookup for a URL that has since changed is cancelled by the main process
+          if (!isCurrent) return
+          console.error('Failed to load video info:', error)
+          setPreviewError('Could not load video details')
+        })
+        .finally(() => {
+          if (isCurrent) setIsLoadingPreview(false)
+        })
+    }, PREVIEW_DEBOUNCE_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timeoutId)
+    }
+  }, [url, isReady])
+
+  // A stream picked for one video means nothing for the next, rules carry over
+  useEffect(() => {
+    setAudioSource((current) =>
+      current.kind === 'format' && !preview?.audioFormats.some((f) => f.formatId === current.formatId)
+        ? DEFAULT_AUDIO_SOURCE
+        : current
+    )
+  }, [preview])
+
   const checkSetup = async () => {
     try {
       const result = await window.api.checkDependencies()
@@ -136,17 +297,106 @@ function App() {
     setIsReady(true)
   }
 
+  // Download stays disabled while the clip range can't be cut
+  const clipError = getClipInputError(clipRange.start, clipRange.end, preview?.duration)
+
+  const buildOptions = () => ({
+    mode,
+    format,
+    quality,
+    speed,
+    pitch,
+    splitChapters,
+    startTime: clipRange.start.trim() || undefined,
+    endTime: clipRange.end.trim() || undefined,
+    notBefore: startAt ? new Date(startAt).getTime() : undefined,
+    ...(subtitles.formats.length > 0 ? {
+      subtitleLanguage: subtitles.language || 'en',
+      subtitleFormats: subtitles.formats,
+      autoSubtitles: subtitles.allowAuto,
+    } : {}),
+    ...(mode === 'audio' ? { audioSource } : {}),
+    ...(mode === 'video' ? {
+      videoContainer: videoOptions.container,
+      maxHeight: videoOptions.maxHeight,
+      embedSubtitles: videoOptions.embedSubtitles,
+    } : {}),
+  })
+
+  const startSingleDownload = async (allowDuplicate: boolean = false) => {
+    setDuplicate(null)
+    setStartError(null)
+    try {
+      const result = await window.api.startDownload(url, buildOptions(), allowDuplicate)
+      if (result.duplicate) {
+        // Keep the URL so it can be downloaded again or with other settings
+        setDuplicate(result.duplicate)
+        return
+      }
+      setUrl('') // Clear for next URL immediately
+      setClipRange({ start: '', end: '' })
+    } catch (error: any) {
+      console.error('Download error:', error)
+      setStartError(error?.message || 'Failed to start download')
+    }
+  }
+
   const handleDownload = async () => {
     if (!url.trim()) return
+    setExpandError(null)
 
+    if (!isPlaylistURL(url)) {
+      await startSingleDownload()
+      return
+    }
+
+    // Playlists are listed first so entries can be deselected
+    setIsExpanding(true)
     try {
-      await window.api.startDownload(url, { quality, speed })
-      setUrl('') // Clear for next URL immediately
+      setPlaylist(await window.api.expandPlaylist(url))
     } catch (error: any) {
-      console.error('Download error:', error)
+      console.error('Playlist error:', error)
+      setExpandError(error?.message || 'Failed to load playlist')
+    } finally {
+      setIsExpanding(false)
+    }
+  }
+
+  const handlePlaylistConfirm = async (entries: PlaylistEntry[]) => {
+    if (!playlist) return
+
+    const count = Math.max(0, ...playlist.entries.map((entry) => entry.index))
+    setPlaylist(null)
+    setStartError(null)
+    try {
+      await window.api.startPlaylistDownload(
+        { id: playlist.id, title: playlist.title, count },
+        entries,
+        // A clip range belongs to a single video
+        { ...buildOptions(), startTime: undefined, endTime: undefined }
+      )
+      setUrl('')
+    } catch (error: any) {
+      console.error('Playlist download error:', error)
+      // The URL stays so the playlist can be opened again
+      setStartError(error?.message || 'Failed to start playlist download')
     }
   }
 
+  const handlePlaylistSingle = async () => {
+    setPlaylist(null)
+    await startSingleDownload()
+  }
+
+  const handleCancelGroup = async (groupId: string) => {
+    const ids = await window.api.cancelDownloadGroup(groupId)
+    setDownloads((prev) => {
+      const updated = new Map(prev)
+      ids.forEach((id) => updated.delete(id))
+      return updated
+    })
+  }
+
   const handleCancel = async (id: string) => {
     await window.api.cancelDownload(id)
     setDownloads((prev) => {
@@ -156,6 +406,29 @@ function App() {
     })
   }
 
+  // Run a failed download again, with the options currently set in the form when edited
+  const handleRetry = async (id: string, withCurrentOptions: boolean) => {
+    try {
+      // Clip range and start time belong to what is being entered now, not the failed item
+      const options = withCurrentOptions
+        ? { ...buildOptions(), startTime: undefined, endTime: undefined, notBefore: undefined }
+        : undefined
+      await window.api.retryDownload(id, options)
+    } catch (error: any) {
+      console.error('Retry error:', error)
+    }
+  }
+
+  const handleCopyErrorDetails = async (download: DownloadState) => {
+    try {
+      await navigator.clipboard.writeText(formatErrorDetails(download))
+      setCopiedErrorId(download.id)
+      setTimeout(() => setCopiedErrorId((current) => (current === download.id ? null : current)), 2000)
+    } catch (error) {
+      console.error('Failed to copy error details:', error)
+    }
+  }
+
   const handleShowInFinder = (outputPath: string) => {
     window.api.showItemInFolder(outputPath)
   }
@@ -187,7 +460,30 @@ function App() {
   return (
     <div className="min-h-screen bg-neutral-900 text-white">
       {/* Title bar drag region */}
-      <div className="drag-region h-8 bg-neutral-900 flex items-center justify-end pr-4">
+      <div className="drag-region h-8 bg-neutral-900 flex items-center justify-end gap-2 pr-4">
+        <button
+          onClick={() => setShowQueue(true)}
+          className="text-neutral-500 hover:text-white transition-colors p-1"
+          title="Queue"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h10" />
+          </svg>
+        </button>
+        <button
+          onClick={() => setShowSubscriptions(true)}
+          className="text-neutral-500 hover:text-white transition-colors p-1"
+          title="Subscriptions"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+            />
+          </svg>
+        </button>
         <button
           onClick={() => setShowSettings(true)}
           className="text-neutral-500 hover:text-white transition-colors p-1"
@@ -214,7 +510,7 @@ function App() {
         {/* Logo/Title */}
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-white mb-1">TubeRun</h1>
-          <p className="text-neutral-400 text-sm">YouTube to MP3 converter</p>
+          <p className="text-neutral-400 text-sm">YouTube audio and video downloader</p>
         </div>
 
         {/* Main content */}
@@ -226,19 +522,105 @@ function App() {
             disabled={false}
           />
 
+          <VideoPreviewCard
+            preview={preview}
+            loading={isLoadingPreview}
+            error={previewError}
+            mode={mode}
+          />
+
           {/* Options - always visible when idle or can start new download */}
           {(isIdle || activeDownloads.length < 5) && (
-            <div className="flex gap-4">
-              <SpeedSelector value={speed} onChange={setSpeed} />
-              <QualitySelector value={quality} onChange={setQuality} />
+            <div className="space-y-4">
+              <ModeSelector value={mode} onChange={setMode} />
+              {mode === 'audio' ? (
+                <>
+                  <FormatSelector value={format} onChange={setFormat} />
+                  <AudioSourceSelector
+                    value={audioSource}
+                    onChange={setAudioSource}
+                    streams={preview?.audioFormats ?? []}
+                  />
+                  <div className="flex gap-4">
+                    <SpeedSelector value={speed} onChange={setSpeed} />
+                    <QualitySelector
+                      value={quality}
+                      onChange={setQuality}
+                      disabled={isLosslessFormat(format)}
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <VideoOptions
+                    container={videoOptions.container}
+                    maxHeight={videoOptions.maxHeight}
+                    embedSubtitles={videoOptions.embedSubtitles}
+                    onChange={setVideoOptions}
+                  />
+                  <SpeedSelector value={speed} onChange={setSpeed} />
+                </>
+              )}
+              <PitchSelector value={pitch} onChange={setPitch} />
+              <SubtitleOptions value={subtitles} onChange={setSubtitles} />
+              <ClipRangeInput
+                url={url}
+                start={clipRange.start}
+                end={clipRange.end}
+                duration={preview?.duration}
+                onChange={setClipRange}
+              />
+              <ScheduleInput value={startAt} onChange={setStartAt} />
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="text-sm text-neutral-300">Split by chapters</span>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    One track per chapter in a folder named after the video
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSplitChapters(!splitChapters)}
+                  className={`
+                    relative w-11 h-6 rounded-full transition-colors duration-200
+                    ${splitChapters ? 'bg-primary-500' : 'bg-neutral-600'}
+                  `}
+                >
+                  <div
+                    className={`
+                      absolute top-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform duration-200
+                      ${splitChapters ? 'translate-x-5' : 'translate-x-0.5'}
+                    `}
+                  />
+                </button>
+              </div>
             </div>
           )}
 
           {/* Download button */}
           <DownloadButton
             onClick={handleDownload}
-            disabled={!url.trim() || !isReady}
+            disabled={!url.trim() || !isReady || isExpanding || clipError !== null}
+            label={mode === 'video'
+              ? videoOptions.container.toUpperCase()
+              : formats.find((f) => f.value === format)?.label}
           />
+          {isExpanding && (
+            <p className="text-center text-sm text-neutral-400">Loading playlist...</p>
+          )}
+          {expandError && (
+            <p className="text-center text-sm text-red-400">{expandError}</p>
+          )}
+          {startError && (
+            <p className="text-center text-sm text-red-400">{startError}</p>
+          )}
+          {duplicate && (
+            <DuplicateNotice
+              match={duplicate.match}
+              action={duplicate.action}
+              onDownloadAgain={() => startSingleDownload(true)}
+              onDismiss={() => setDuplicate(null)}
+            />
+          )}
 
           {/* Active downloads */}
           {activeDownloads.length > 0 && (
@@ -247,17 +629,40 @@ function App() {
                 <div key={download.id} className="bg-neutral-800/50 rounded-lg p-4">
                   <ProgressBar
                     percent={download.percent}
-                    status={download.status as 'queued' | 'downloading' | 'converting' | 'retrying'}
+                    status={download.status as 'queued' | 'scheduled' | 'downloading' | 'converting' | 'retrying' | 'paused'}
+                    phase={download.phase}
+                    streamInfo={
+                      download.streamIndex && download.streamCount
+                        ? { current: download.streamIndex, max: download.streamCount }
+                        : undefined
+                    }
                     title={download.title}
                     speed={download.speed}
                     eta={download.eta}
+                    bytes={
+                      download.downloadedBytes !== undefined
+                        ? { downloaded: download.downloadedBytes, total: download.totalBytes }
+                        : undefined
+                    }
                     queuePosition={download.queuePosition}
+                    startsAt={download.startsAt}
                     retryInfo={
                       download.retryCount && download.maxRetries
                         ? { current: download.retryCount, max: download.maxRetries }
                         : undefined
                     }
+                    trackInfo={
+                      download.trackIndex && download.trackCount
+                        ? { current: download.trackIndex, max: download.trackCount }
+                        : undefined
+                    }
+                    groupTitle={download.groupTitle}
                     onCancel={() => handleCancel(download.id)}
+                    onPause={() => window.api.pauseDownload(download.id)}
+                    onResume={() => window.api.resumeDownload(download.id)}
+                    onCancelGroup={download.groupId ? () => handleCancelGroup(download.groupId!) : undefined}
+                    conflictPath={download.conflictPath}
+                    onResolveCollision={(decision) => window.api.resolveCollision(download.id, decision)}
                   />
                 </div>
               ))}
@@ -272,14 +677,32 @@ function App() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>Download complete!</span>
+                  <span>{download.collision === 'skipped' ? 'Already downloaded' : 'Download complete!'}</span>
                 </div>
                 <p className="text-neutral-400 text-sm truncate">{download.title}</p>
+                {download.collision && (
+                  <p className="text-neutral-500 text-xs mt-1 truncate" title={download.outputPath || undefined}>
+                    {download.collision === 'skipped' && 'Skipped, the file already exists'}
+                    {download.collision === 'renamed' && `Saved as ${download.outputPath?.split(/[\\/]/).pop()}`}
+                    {download.collision === 'overwritten' && 'Replaced the existing file'}
+                  </p>
+                )}
+                {download.trackCount && (
+                  <p className="text-neutral-500 text-xs mt-1">{download.trackCount} chapter tracks</p>
+                )}
               </div>
 
-              {/* Audio player */}
+              {/* Media player */}
               {download.outputPath && (
-                <AudioPlayer src={`file://${download.outputPath}`} />
+                isVideoFile(download.outputPath) ? (
+                  <video
+                    src={`file://${download.outputPath}`}
+                    controls
+                    className="w-full rounded-lg bg-black"
+                  />
+                ) : (
+                  <AudioPlayer src={`file://${download.outputPath}`} />
+                )
               )}
 
               {/* Actions */}
@@ -302,9 +725,56 @@ function App() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>Download failed</span>
+                  <span>{errorLabels[download.errorType ?? 'unknown']}</span>
                 </div>
+                {download.title && (
+                  <p className="text-neutral-300 text-sm truncate">{download.title}</p>
+                )}
                 <p className="text-neutral-400 text-sm">{download.error}</p>
+                {download.attempts && download.attempts.length > 1 && (
+                  <p className="text-neutral-500 text-xs mt-1">Failed after {download.attempts.length} attempts</p>
+                )}
+                {(download.errorType === 'age_restricted' || download.errorType === 'video_private') && (
+                  <p className="text-neutral-500 text-xs mt-1">
+                    Signed-in cookies may get access.{' '}
+                    <button
+                      onClick={() => setShowSettings(true)}
+                      className="text-primary-400 hover:text-primary-300 transition-colors"
+                    >
+                      Add them in Settings
+                    </button>
+                    , then retry.
+                  </p>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex flex-wrap gap-3 justify-center">
+                <button
+                  onClick={() => handleRetry(download.id, false)}
+                  title={download.retryable === false ? 'This error is unlikely to go away by itself' : undefined}
+                  className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 rounded-lg text-sm transition-colors"
+                >
+                  Retry
+                </button>
+                <button
+                  onClick={() => handleRetry(download.id, true)}
+                  className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 rounded-lg text-sm transition-colors"
+                >
+                  Retry with current settings
+                </button>
+                <button
+                  onClick={() => handleCopyErrorDetails(download)}
+                  className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 rounded-lg text-sm transition-colors"
+                >
+                  {copiedErrorId === download.id ? 'Copied' : 'Copy details'}
+                </button>
+                <button
+                  onClick={() => handleCancel(download.id)}
+                  className="px-4 py-2 text-neutral-400 hover:text-white text-sm transition-colors"
+                >
+                  Dismiss
+                </button>
               </div>
             </div>
           ))}
@@ -320,6 +790,21 @@ function App() {
 
       {/* Settings Panel */}
       <SettingsPanel isOpen={showSettings} onClose={() => setShowSettings(false)} />
+
+      {/* Subscriptions Panel */}
+      <SubscriptionsPanel isOpen={showSubscriptions} onClose={() => setShowSubscriptions(false)} />
+
+      {/* Queue Panel */}
+      <QueuePanel isOpen={showQueue} onClose={() => setShowQueue(false)} />
+
+      {/* Playlist checklist */}
+      <PlaylistPicker
+        playlist={playlist}
+        allowSingle={/[?&]v=/.test(url) || /youtu\.be\//.test(url)}
+        onConfirm={handlePlaylistConfirm}
+        onSingle={handlePlaylistSingle}
+        onClose={() => setPlaylist(null)}
+      />
     </div>
   )
 }
@@ -0,0 +1,103 @@
+export type AudioSource =
+  | { kind: 'format'; formatId: string }
+  | { kind: 'rule'; codec?: 'opus' | 'aac'; maxBitrate?: number; language?: string }
+
+export const DEFAULT_AUDIO_SOURCE: AudioSource = { kind: 'rule' }
+
+interface AudioSourceSelectorProps {
+  value: AudioSource
+  onChange: (value: AudioSource) => void
+  // Streams of the previewed video, specific ones can only be picked once it is known
+  streams: AudioStreamInfo[]
+}
+
+const codecOptions: Array<{ value: 'opus' | 'aac' | undefined; label: string }> = [
+  { value: undefined, label: 'Best' },
+  { value: 'opus', label: 'Opus' },
+  { value: 'aac', label: 'AAC' },
+]
+
+const maxBitrates = [64, 96, 128, 160]
+
+// "251 · opus · 130 kbps · en"
+const describeStream = (stream: AudioStreamInfo): string =>
+  [
+    stream.formatId,
+    stream.codec.split('.')[0],
+    stream.bitrate ? `${Math.round(stream.bitrate)} kbps` : undefined,
+    stream.language,
+  ].filter(Boolean).join(' · ')
+
+function AudioSourceSelector({ value, onChange, streams }: AudioSourceSelectorProps) {
+  const rule = value.kind === 'rule' ? value : null
+  const languages = Array.from(new Set(streams.map((s) => s.language).filter((l): l is string => !!l)))
+
+  const selectClassName =
+    'px-2 py-2 bg-neutral-800 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-sm text-white disabled:opacity-40'
+
+  return (
+    <div>
+      <label className="block text-sm text-neutral-400 mb-2">Source stream</label>
+      <div className="flex items-center gap-2">
+        <div className="flex gap-1 bg-neutral-800 rounded-lg p-1 flex-1">
+          {codecOptions.map((c) => (
+            <button
+              key={c.label}
+              onClick={() => onChange({ ...(rule ?? {}), kind: 'rule', codec: c.value })}
+              className={`
+                flex-1 px-2 py-2 rounded-md text-sm font-medium
+                transition-all duration-150
+                ${rule && rule.codec === c.value
+                  ? 'bg-primary-600 text-white'
+                  : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                }
+              `}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={rule?.maxBitrate ?? ''}
+          onChange={(e) => onChange({ ...rule, kind: 'rule', maxBitrate: e.target.value ? parseInt(e.target.value) : undefined })}
+          disabled={!rule}
+          title="Highest source bitrate to fetch"
+          className={selectClassName}
+        >
+          <option value="">Any bitrate</option>
+          {maxBitrates.map((kbps) => (
+            <option key={kbps} value={kbps}>Up to {kbps} kbps</option>
+          ))}
+        </select>
+        {languages.length > 1 && (
+          <select
+            value={rule?.language ?? ''}
+            onChange={(e) => onChange({ ...rule, kind: 'rule', language: e.target.value || undefined })}
+            disabled={!rule}
+            title="Audio track language"
+            className={selectClassName}
+          >
+            <option value="">Any language</option>
+            {languages.map((language) => (
+              <option key={language} value={language}>{language}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {streams.length > 0 && (
+        <select
+          value={value.kind === 'format' ? value.formatId : ''}
+          onChange={(e) => onChange(e.target.value ? { kind: 'format', formatId: e.target.value } : DEFAULT_AUDIO_SOURCE)}
+          className={`${selectClassName} w-full mt-2`}
+        >
+          <option value="">Pick automatically</option>
+          {streams.map((stream) => (
+            <option key={stream.formatId} value={stream.formatId}>{describeStream(stream)}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+export default AudioSourceSelector
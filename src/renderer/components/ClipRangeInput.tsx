@@ -0,0 +1,86 @@
+import { useEffect } from 'react'
+import { getClipInputError } from '../../shared/clip'
+
+interface ClipRangeInputProps {
+  url: string
+  start: string
+  end: string
+  duration?: number // seconds, from the preview once loaded
+  onChange: (range: { start: string; end: string }) => void
+}
+
+// Read the ?t= (or &start=) parameter from a pasted YouTube URL, e.g. "t=1h2m3s" or "t=90"
+function getUrlStartTime(url: string): string | null {
+  try {
+    const params = new URL(url.trim()).searchParams
+    const value = params.get('t') ?? params.get('start')
+    return value && value !== '0' && value !== '0s' ? value : null
+  } catch {
+    return null
+  }
+}
+
+function ClipRangeInput({ url, start, end, duration, onChange }: ClipRangeInputProps) {
+  // Prefill the start from the pasted URL's timestamp
+  useEffect(() => {
+    const urlStart = getUrlStartTime(url)
+    if (urlStart && !start) {
+      onChange({ start: urlStart, end })
+    }
+  }, [url])
+
+  const error = getClipInputError(start, end, duration)
+
+  const inputClass = `
+    w-full px-3 py-2
+    bg-neutral-800
+    border-2 rounded-lg
+    text-sm text-white placeholder-neutral-500
+    transition-all duration-200
+    ${error
+      ? 'border-red-500'
+      : 'border-neutral-700 focus:border-primary-500'
+    }
+  `
+
+  return (
+    <div>
+      <label className="block text-sm text-neutral-400 mb-2">Clip (optional)</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={start}
+          onChange={(e) => onChange({ start: e.target.value, end })}
+          placeholder="Start, e.g. 1:02:03"
+          className={inputClass}
+          spellCheck={false}
+          autoComplete="off"
+        />
+        <span className="text-neutral-500">–</span>
+        <input
+          type="text"
+          value={end}
+          onChange={(e) => onChange({ start, end: e.target.value })}
+          placeholder="End"
+          className={inputClass}
+          spellCheck={false}
+          autoComplete="off"
+        />
+        {(start || end) && (
+          <button
+            onClick={() => onChange({ start: '', end: '' })}
+            className="text-neutral-500 hover:text-white transition-colors text-sm px-2"
+            title="Download the whole video"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {error && (
+        <p className="text-xs text-red-400 mt-1">{error}</p>
+      )}
+    </div>
+  )
+}
+
+export default ClipRangeInput
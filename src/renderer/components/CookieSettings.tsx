@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+
+const browsers: Array<{ value: CookieBrowser; label: string }> = [
+  { value: 'chrome', label: 'Chrome' },
+  { value: 'firefox', label: 'Firefox' },
+  { value: 'edge', label: 'Edge' },
+  { value: 'brave', label: 'Brave' },
+  { value: 'safari', label: 'Safari' },
+  { value: 'chromium', label: 'Chromium' },
+  { value: 'opera', label: 'Opera' },
+  { value: 'vivaldi', label: 'Vivaldi' },
+]
+
+// Signed-in YouTube cookies for age-restricted, private and members-only videos
+function CookieSettings() {
+  const [status, setStatus] = useState<CookieStatus | null>(null)
+  const [browser, setBrowser] = useState<CookieBrowser>('chrome')
+  const [busy, setBusy] = useState<'file' | 'browser' | 'test' | null>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  useEffect(() => {
+    window.api.getCookieStatus()
+      .then(setStatus)
+      .catch((err) => console.error('Failed to load cookie status:', err))
+  }, [])
+
+  // Runs one cookie action at a time and shows its outcome below the buttons
+  const run = async (kind: 'file' | 'browser' | 'test', action: () => Promise<string | null>) => {
+    setBusy(kind)
+    setMessage(null)
+    try {
+      const text = await action()
+      if (text) setMessage({ text, isError: false })
+    } catch (error: any) {
+      setMessage({ text: error?.message || 'Something went wrong', isError: true })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const describeImport = (imported: CookieStatus) =>
+    imported.signedIn
+      ? `Imported ${imported.cookieCount} cookies`
+      : `Imported ${imported.cookieCount} cookies, but none show a YouTube sign-in`
+
+  const handleImportFile = () => run('file', async () => {
+    const imported = await window.api.importCookieFile()
+    if (!imported) return null
+    setStatus(imported)
+    return describeImport(imported)
+  })
+
+  // Without a folder yt-dlp reads the browser's default profile
+  const handleImportBrowser = (withProfile: boolean) => run('browser', async () => {
+    const profileDir = withProfile ? await window.api.selectFolder() : undefined
+    if (profileDir === null) return null
+    const imported = await window.api.importBrowserCookies(browser, profileDir)
+    setStatus(imported)
+    return describeImport(imported)
+  })
+
+  const handleTest = () => run('test', async () => {
+    const result = await window.api.testCookies()
+    if (!result.ok) throw new Error(result.error || 'The cookies were not accepted')
+    const expired = result.expiredCount > 0 ? `, ${result.expiredCount} expired` : ''
+    return result.signedIn
+      ? `Cookies work${expired}`
+      : `Cookies work but aren't signed in${expired}`
+  })
+
+  const handleRemove = async () => {
+    setMessage(null)
+    try {
+      await window.api.removeCookies()
+      setStatus({ configured: false })
+    } catch (error) {
+      console.error('Failed to remove cookies:', error)
+    }
+  }
+
+  const buttonClassName =
+    'px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 disabled:opacity-40 rounded-lg text-xs font-medium transition-colors'
+
+  return (
+    <div>
+      <label className="block text-sm text-neutral-300 mb-1">Cookies</label>
+      <p className="text-xs text-neutral-500 mb-2">
+        Sign-in cookies let age-restricted, private and members-only videos download. They are stored encrypted.
+      </p>
+
+      {status?.configured ? (
+        <div className="flex items-center gap-2 bg-neutral-900 rounded-lg px-3 py-2 mb-2">
+          <div className="min-w-0 flex-1">
+            <p className="text-sm text-white truncate" title={status.source}>{status.source}</p>
+            <p className="text-xs text-neutral-500">
+              {status.cookieCount} cookies
+              {status.addedAt ? ` · added ${new Date(status.addedAt).toLocaleDateString()}` : ''}
+            </p>
+          </div>
+          <button onClick={handleTest} disabled={busy !== null} className={buttonClassName}>
+            {busy === 'test' ? 'Testing…' : 'Test'}
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={busy !== null}
+            className="text-xs text-neutral-400 hover:text-red-400 disabled:opacity-40 transition-colors"
+          >
+            Remove
+          </button>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleImportFile} disabled={busy !== null} className={buttonClassName}>
+          {busy === 'file' ? 'Importing…' : 'Import cookies.txt'}
+        </button>
+        <select
+          value={browser}
+          onChange={(e) => setBrowser(e.target.value as CookieBrowser)}
+          disabled={busy !== null}
+          className="px-2 py-1.5 bg-neutral-900 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-xs text-white"
+        >
+          {browsers.map((b) => (
+            <option key={b.value} value={b.value}>{b.label}</option>
+          ))}
+        </select>
+        <button onClick={() => handleImportBrowser(false)} disabled={busy !== null} className={buttonClassName}>
+          {busy === 'browser' ? 'Reading…' : 'From browser'}
+        </button>
+        <button
+          onClick={() => handleImportBrowser(true)}
+          disabled={busy !== null}
+          title="Pick the browser profile folder to read"
+          className="text-xs text-neutral-400 hover:text-white disabled:opacity-40 transition-colors"
+        >
+          Profile folder…
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-xs mt-2 break-words ${message.isError ? 'text-red-400' : 'text-neutral-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default CookieSettings
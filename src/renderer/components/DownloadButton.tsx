@@ -1,9 +1,10 @@
 interface DownloadButtonProps {
   onClick: () => void
   disabled?: boolean
+  label?: string
 }
 
-function DownloadButton({ onClick, disabled }: DownloadButtonProps) {
+function DownloadButton({ onClick, disabled, label = 'MP3' }: DownloadButtonProps) {
   return (
     <button
       onClick={onClick}
@@ -22,7 +23,7 @@ function DownloadButton({ onClick, disabled }: DownloadButtonProps) {
       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
       </svg>
-      Download MP3
+      Download {label}
     </button>
   )
 }
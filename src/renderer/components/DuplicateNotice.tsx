@@ -0,0 +1,64 @@
+interface DuplicateNoticeProps {
+  match: DownloadHistory
+  // 'skip' only reports, 'warn' lets the user download anyway
+  action: 'warn' | 'skip'
+  onDownloadAgain: () => void
+  onDismiss: () => void
+}
+
+const formatDownloadedAt = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+function DuplicateNotice({ match, action, onDownloadAgain, onDismiss }: DuplicateNoticeProps) {
+  const handleOpen = async () => {
+    try {
+      await window.api.openPath(match.outputPath)
+    } catch (error) {
+      console.error('Failed to open file:', error)
+    }
+  }
+
+  return (
+    <div className="bg-neutral-800/50 border border-yellow-500/30 rounded-lg p-4">
+      <p className="text-sm text-yellow-400">
+        {action === 'skip' ? 'Already downloaded — skipped' : 'Already downloaded with these settings'}
+      </p>
+      <p className="text-sm text-white truncate mt-1" title={match.title}>{match.title}</p>
+      <p className="text-xs text-neutral-500 mt-0.5">{formatDownloadedAt(match.timestamp)}</p>
+      <div className="flex flex-wrap gap-3 mt-3 text-xs">
+        <button
+          onClick={handleOpen}
+          className="px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-lg transition-colors"
+        >
+          Open existing
+        </button>
+        {action === 'warn' && (
+          <>
+            <button
+              onClick={onDownloadAgain}
+              className="px-3 py-1.5 bg-primary-600 hover:bg-primary-500 rounded-lg transition-colors"
+            >
+              Download again
+            </button>
+            <button
+              onClick={onDismiss}
+              className="text-neutral-400 hover:text-white transition-colors"
+            >
+              Download with different settings
+            </button>
+          </>
+        )}
+        {action === 'skip' && (
+          <button
+            onClick={onDismiss}
+            className="text-neutral-400 hover:text-white transition-colors ml-auto"
+          >
+            Dismiss
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DuplicateNotice
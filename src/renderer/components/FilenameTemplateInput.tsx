@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react'
+
+interface FilenameTemplateInputProps {
+  label: string
+  value: string
+  onSave: (value: string) => void
+}
+
+// Preview lookups wait for typing to pause
+const PREVIEW_DELAY_MS = 250
+
+function FilenameTemplateInput({ label, value, onSave }: FilenameTemplateInputProps) {
+  const [draft, setDraft] = useState(value)
+  const [preview, setPreview] = useState<{ path?: string; error?: string }>({})
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  // Render the draft against a sample video and save it once it is valid
+  useEffect(() => {
+    let isCurrent = true
+    const timeoutId = setTimeout(() => {
+      window.api.previewFilename(draft)
+        .then((result) => {
+          if (!isCurrent) return
+          setPreview(result)
+          if (!result.error && draft.trim() !== value) {
+            onSave(draft.trim())
+          }
+        })
+        .catch((err) => console.error('Failed to preview filename:', err))
+    }, PREVIEW_DELAY_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timeoutId)
+    }
+  }, [draft])
+
+  return (
+    <div>
+      <label className="block text-sm text-neutral-300 mb-2">{label}</label>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className={`
+          w-full px-3 py-2 bg-neutral-900 border-2 rounded-lg text-sm text-white font-mono
+          ${preview.error ? 'border-red-500' : 'border-neutral-700 focus:border-primary-500'}
+        `}
+        spellCheck={false}
+        autoComplete="off"
+      />
+      <p className={`text-xs mt-1 break-all ${preview.error ? 'text-red-400' : 'text-neutral-500'}`}>
+        {preview.error || preview.path || ' '}
+      </p>
+    </div>
+  )
+}
+
+export default FilenameTemplateInput
@@ -0,0 +1,47 @@
+export type AudioFormat = 'mp3' | 'm4a' | 'opus' | 'ogg' | 'flac' | 'wav'
+
+interface FormatSelectorProps {
+  value: AudioFormat
+  onChange: (value: AudioFormat) => void
+}
+
+export const formats: Array<{ value: AudioFormat; label: string; lossless: boolean }> = [
+  { value: 'mp3', label: 'MP3', lossless: false },
+  { value: 'm4a', label: 'M4A', lossless: false },
+  { value: 'opus', label: 'Opus', lossless: false },
+  { value: 'ogg', label: 'OGG', lossless: false },
+  { value: 'flac', label: 'FLAC', lossless: true },
+  { value: 'wav', label: 'WAV', lossless: true },
+]
+
+export function isLosslessFormat(format: AudioFormat): boolean {
+  return formats.some((f) => f.value === format && f.lossless)
+}
+
+function FormatSelector({ value, onChange }: FormatSelectorProps) {
+  return (
+    <div className="flex-1">
+      <label className="block text-sm text-neutral-400 mb-2">Format</label>
+      <div className="flex gap-1 bg-neutral-800 rounded-lg p-1">
+        {formats.map((f) => (
+          <button
+            key={f.value}
+            onClick={() => onChange(f.value)}
+            className={`
+              flex-1 px-2 py-2 rounded-md text-sm font-medium
+              transition-all duration-150
+              ${value === f.value
+                ? 'bg-primary-600 text-white'
+                : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+              }
+            `}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default FormatSelector
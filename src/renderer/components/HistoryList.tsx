@@ -6,6 +6,23 @@ interface HistoryItem {
   title: string
   outputPath: string
   timestamp: number
+  trackCount?: number
+  startTime?: number
+  endTime?: number
+  speed?: number
+  pitch?: number
+  mode?: 'audio' | 'video'
+  maxHeight?: number
+  sidecars?: string[]
+  collision?: 'skipped' | 'renamed' | 'overwritten'
+  timings?: {
+    total: number // ms
+    info: number
+    infoCached: boolean
+    transfer: number
+    processing: number
+  }
+  audioFallback?: string
 }
 
 function HistoryList() {
@@ -61,6 +78,21 @@ function HistoryList() {
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
   }
 
+  const formatClipTime = (seconds: number) => {
+    const total = Math.floor(seconds)
+    const h = Math.floor(total / 3600)
+    const m = Math.floor((total % 3600) / 60)
+    const s = String(total % 60).padStart(2, '0')
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+  }
+
+  // Shown when hovering the date, e.g. "Took 12.4 s: info cached, transfer 9.8 s, processing 2.1 s"
+  const describeTimings = (timings: NonNullable<HistoryItem['timings']>) => {
+    const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`
+    const info = timings.infoCached ? 'info cached' : `info ${seconds(timings.info)}`
+    return `Took ${seconds(timings.total)}: ${info}, transfer ${seconds(timings.transfer)}, processing ${seconds(timings.processing)}`
+  }
+
   if (isLoading) {
     return null
   }
@@ -96,17 +128,44 @@ function HistoryList() {
             key={item.id}
             className="flex items-center gap-3 p-3 bg-neutral-800/50 rounded-lg hover:bg-neutral-800 transition-colors group"
           >
-            {/* Music icon */}
+            {/* Media type icon */}
             <div className="w-10 h-10 rounded-lg bg-neutral-700 flex items-center justify-center flex-shrink-0">
-              <svg className="w-5 h-5 text-primary-400" fill="currentColor" viewBox="0 0 24 24">
-                <path d="M12 3v10.55c-.59-.34-1.27-.55-2-.55-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7h4V3h-6z" />
-              </svg>
+              {item.mode === 'video' ? (
+                <svg className="w-5 h-5 text-primary-400" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M17 10.5V7a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h12a1 1 0 001-1v-3.5l4 4v-11l-4 4z" />
+                </svg>
+              ) : (
+                <svg className="w-5 h-5 text-primary-400" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M12 3v10.55c-.59-.34-1.27-.55-2-.55-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7h4V3h-6z" />
+                </svg>
+              )}
             </div>
 
             {/* Info */}
             <div className="flex-1 min-w-0">
               <p className="text-sm text-white truncate">{item.title}</p>
-              <p className="text-xs text-neutral-500">{formatDate(item.timestamp)}</p>
+              <p className="text-xs text-neutral-500">
+                <span title={item.timings ? describeTimings(item.timings) : undefined}>
+                  {formatDate(item.timestamp)}
+                </span>
+                {item.mode === 'video' && item.maxHeight && ` · ${item.maxHeight}p`}
+                {item.speed && ` · ${item.speed}x`}
+                {item.pitch && ` · ${item.pitch > 0 ? '+' : ''}${item.pitch} st`}
+                {item.trackCount && ` · ${item.trackCount} tracks`}
+                {item.sidecars && item.sidecars.length > 0 && (
+                  <span title={item.sidecars.map((path) => path.split(/[\\/]/).pop()).join('\n')}>
+                    {` · ${item.sidecars.map((path) => path.split('.').pop()?.toUpperCase()).join(', ')}`}
+                  </span>
+                )}
+                {(item.startTime !== undefined || item.endTime !== undefined) &&
+                  ` · clip ${formatClipTime(item.startTime ?? 0)}–${
+                    item.endTime !== undefined ? formatClipTime(item.endTime) : 'end'
+                  }`}
+                {item.collision === 'skipped' && ' · skipped, already existed'}
+                {item.collision === 'renamed' && ` · saved as ${item.outputPath.split(/[\\/]/).pop()}`}
+                {item.collision === 'overwritten' && ' · replaced existing file'}
+                {item.audioFallback && ` · format ${item.audioFallback} was gone, best audio used`}
+              </p>
             </div>
 
             {/* Actions */}
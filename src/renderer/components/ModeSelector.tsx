@@ -0,0 +1,36 @@
+export type MediaMode = 'audio' | 'video'
+
+interface ModeSelectorProps {
+  value: MediaMode
+  onChange: (value: MediaMode) => void
+}
+
+const modes: Array<{ value: MediaMode; label: string }> = [
+  { value: 'audio', label: 'Audio' },
+  { value: 'video', label: 'Video' },
+]
+
+function ModeSelector({ value, onChange }: ModeSelectorProps) {
+  return (
+    <div className="flex gap-1 bg-neutral-800 rounded-lg p-1">
+      {modes.map((m) => (
+        <button
+          key={m.value}
+          onClick={() => onChange(m.value)}
+          className={`
+            flex-1 px-3 py-2 rounded-md text-sm font-medium
+            transition-all duration-150
+            ${value === m.value
+              ? 'bg-primary-600 text-white'
+              : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+            }
+          `}
+        >
+          {m.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default ModeSelector
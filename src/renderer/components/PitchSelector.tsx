@@ -0,0 +1,45 @@
+interface PitchSelectorProps {
+  value: number
+  onChange: (value: number) => void
+}
+
+function PitchSelector({ value, onChange }: PitchSelectorProps) {
+  const formatPitch = (semitones: number) => {
+    if (semitones === 0) return 'Original'
+    return `${semitones > 0 ? '+' : ''}${semitones} st`
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm text-neutral-400">Pitch</label>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-primary-400 font-medium">{formatPitch(value)}</span>
+          {value !== 0 && (
+            <button
+              onClick={() => onChange(0)}
+              className="text-xs text-neutral-500 hover:text-white transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+      <input
+        type="range"
+        min="-12"
+        max="12"
+        step="1"
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value))}
+        className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+      />
+      <div className="flex justify-between text-xs text-neutral-500 mt-1">
+        <span>-12</span>
+        <span>+12</span>
+      </div>
+    </div>
+  )
+}
+
+export default PitchSelector
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react'
+
+interface PlaylistPickerProps {
+  playlist: PlaylistInfo | null
+  // Offered for watch links that also carry a playlist
+  allowSingle: boolean
+  onConfirm: (entries: PlaylistEntry[]) => void
+  onSingle: () => void
+  onClose: () => void
+}
+
+const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.floor(seconds % 60)
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m)
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`
+}
+
+function PlaylistPicker({ playlist, allowSingle, onConfirm, onSingle, onClose }: PlaylistPickerProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  // Everything not downloaded before is selected when a playlist opens
+  useEffect(() => {
+    setSelected(new Set(playlist?.entries.filter((entry) => !entry.downloaded).map((entry) => entry.id) ?? []))
+  }, [playlist])
+
+  if (!playlist) return null
+
+  const allSelected = selected.size === playlist.entries.length
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(playlist.entries.map((entry) => entry.id)))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-neutral-800 rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between mb-4 gap-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white truncate">{playlist.title}</h2>
+            <p className="text-xs text-neutral-500 mt-0.5">
+              {playlist.uploader ? `${playlist.uploader} · ` : ''}
+              {playlist.entries.length} videos
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 mb-2 text-sm text-neutral-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            className="accent-primary-500"
+          />
+          Select all
+        </label>
+
+        <ul className="flex-1 overflow-y-auto space-y-1 pr-1">
+          {playlist.entries.map((entry) => (
+            <li key={entry.id}>
+              <label className="flex items-center gap-3 px-2 py-1.5 rounded-md hover:bg-neutral-700/50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(entry.id)}
+                  onChange={() => toggle(entry.id)}
+                  className="accent-primary-500"
+                />
+                <span className="text-xs text-neutral-500 w-6 text-right">{entry.index}</span>
+                <span className="flex-1 text-sm text-white truncate">{entry.title}</span>
+                {entry.downloaded && (
+                  <span className="text-xs text-green-500">Downloaded</span>
+                )}
+                {entry.duration !== undefined && (
+                  <span className="text-xs text-neutral-500">{formatDuration(entry.duration)}</span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-3 justify-end mt-4">
+          {allowSingle && (
+            <button
+              onClick={onSingle}
+              className="px-4 py-2 bg-neutral-700 hover:bg-neutral-600 rounded-lg text-sm transition-colors"
+            >
+              Only this video
+            </button>
+          )}
+          <button
+            onClick={() => onConfirm(playlist.entries.filter((entry) => selected.has(entry.id)))}
+            disabled={selected.size === 0}
+            className="px-4 py-2 bg-primary-600 hover:bg-primary-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+          >
+            Download {selected.size} of {playlist.entries.length}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PlaylistPicker
@@ -1,36 +1,116 @@
+import { useState, useEffect } from 'react'
+
+export type ProcessingPhase =
+  | 'fetching-info'
+  | 'downloading'
+  | 'extracting'
+  | 'post-processing'
+  | 'merging'
+  | 'analyzing-loudness'
+  | 'normalizing'
+  | 'speed-adjust'
+  | 'splitting'
+  | 'subtitles'
+  | 'collision'
+
+// "2h 05m", "4m 10s", "12s"
+const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`
+  if (m > 0) return `${m}m ${String(s).padStart(2, '0')}s`
+  return `${s}s`
+}
+
+// "12.3 MB"
+const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
 interface ProgressBarProps {
   percent: number
-  status: 'queued' | 'downloading' | 'converting' | 'retrying'
+  status: 'queued' | 'scheduled' | 'downloading' | 'converting' | 'retrying' | 'paused'
+  phase?: ProcessingPhase
   title: string
   speed?: string
   eta?: string
+  bytes?: { downloaded: number; total?: number }
   queuePosition?: number
+  startsAt?: number // scheduled start, counted down while 'scheduled'
   retryInfo?: { current: number; max: number }
+  trackInfo?: { current: number; max: number }
+  streamInfo?: { current: number; max: number }
+  groupTitle?: string
+  conflictPath?: string
   onCancel: () => void
+  onPause?: () => void
+  onResume?: () => void
+  onCancelGroup?: () => void
+  onResolveCollision?: (decision: 'skip' | 'rename' | 'overwrite') => void
 }
 
 function ProgressBar({
   percent,
   status,
+  phase,
   title,
   speed,
   eta,
+  bytes,
   queuePosition,
+  startsAt,
   retryInfo,
-  onCancel
+  trackInfo,
+  streamInfo,
+  groupTitle,
+  conflictPath,
+  onCancel,
+  onPause,
+  onResume,
+  onCancelGroup,
+  onResolveCollision
 }: ProgressBarProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Tick the countdown while waiting for a scheduled start
+  useEffect(() => {
+    if (status !== 'scheduled') return
+    const intervalId = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(intervalId)
+  }, [status])
+
   const getStatusText = () => {
     switch (status) {
       case 'queued':
         return queuePosition ? `Queued (#${queuePosition})` : 'Queued'
+      case 'scheduled':
+        return startsAt ? `Starts in ${formatCountdown(startsAt - now)}` : 'Scheduled'
       case 'downloading':
+        if (phase === 'fetching-info') return 'Fetching video info...'
+        // Video mode fetches the picture first, then the sound
+        if (streamInfo) {
+          return `Downloading ${streamInfo.current === 1 ? 'video' : 'audio'} (${streamInfo.current}/${streamInfo.max})...`
+        }
         return 'Downloading...'
       case 'converting':
+        if (phase === 'splitting' && trackInfo) {
+          return `Splitting track ${trackInfo.current}/${trackInfo.max}...`
+        }
+        if (phase === 'collision') return 'File already exists'
+        if (phase === 'extracting') return 'Extracting audio...'
+        if (phase === 'post-processing') return 'Finishing up...'
+        if (phase === 'merging') return 'Merging video and audio...'
+        if (phase === 'analyzing-loudness') return 'Analyzing loudness...'
+        if (phase === 'normalizing') return 'Normalizing loudness...'
+        if (phase === 'subtitles') return 'Saving captions...'
+        if (phase === 'speed-adjust') return 'Adjusting speed and pitch...'
         return 'Converting...'
       case 'retrying':
         return retryInfo
           ? `Retrying (${retryInfo.current}/${retryInfo.max})...`
           : 'Retrying...'
+      case 'paused':
+        return 'Paused'
       default:
         return 'Processing...'
     }
@@ -39,6 +119,7 @@ function ProgressBar({
   const getProgressBarColor = () => {
     switch (status) {
       case 'queued':
+      case 'scheduled':
         return 'bg-neutral-500'
       case 'downloading':
         return 'bg-primary-500'
@@ -46,6 +127,8 @@ function ProgressBar({
         return 'bg-green-500'
       case 'retrying':
         return 'bg-yellow-500'
+      case 'paused':
+        return 'bg-neutral-500'
       default:
         return 'bg-primary-500'
     }
@@ -59,8 +142,40 @@ function ProgressBar({
         {title && (
           <p className="text-white font-medium truncate mt-1">{title}</p>
         )}
+        {groupTitle && (
+          <p className="text-xs text-neutral-500 truncate mt-0.5">{groupTitle}</p>
+        )}
       </div>
 
+      {/* Existing file prompt */}
+      {phase === 'collision' && onResolveCollision && (
+        <div className="bg-neutral-900/60 rounded-lg p-3 space-y-2">
+          {conflictPath && (
+            <p className="text-xs text-neutral-500 break-all">{conflictPath}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => onResolveCollision('skip')}
+              className="flex-1 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm transition-colors"
+            >
+              Skip
+            </button>
+            <button
+              onClick={() => onResolveCollision('rename')}
+              className="flex-1 px-3 py-1.5 bg-primary-600 hover:bg-primary-500 rounded-md text-sm transition-colors"
+            >
+              Keep both
+            </button>
+            <button
+              onClick={() => onResolveCollision('overwrite')}
+              className="flex-1 px-3 py-1.5 bg-neutral-700 hover:bg-red-600 rounded-md text-sm transition-colors"
+            >
+              Replace
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Progress bar */}
       <div className="relative h-3 bg-neutral-800 rounded-full overflow-hidden">
         <div
@@ -68,32 +183,68 @@ function ProgressBar({
             absolute inset-y-0 left-0 rounded-full
             transition-all duration-300 ease-out
             ${getProgressBarColor()}
-            ${status !== 'queued' && percent < 100 && 'progress-active'}
+            ${status !== 'queued' && status !== 'scheduled' && status !== 'paused' && percent < 100 && 'progress-active'}
           `}
-          style={{ width: `${status === 'queued' ? 0 : percent}%` }}
+          style={{ width: `${status === 'queued' || status === 'scheduled' ? 0 : percent}%` }}
         />
       </div>
 
       {/* Stats row */}
       <div className="flex items-center justify-between text-sm">
         <span className="text-neutral-400">
-          {status === 'queued' ? 'Waiting...' : `${Math.round(percent)}%`}
+          {status === 'queued' || status === 'scheduled' ? 'Waiting...' : `${Math.round(percent)}%`}
         </span>
 
         {/* Speed and ETA - only show when downloading */}
-        {status === 'downloading' && (speed || eta) && (
+        {status === 'downloading' && (speed || eta || bytes) && (
           <div className="flex gap-3 text-neutral-400">
+            {bytes && (
+              <span>
+                {bytes.total
+                  ? `${formatMegabytes(bytes.downloaded)} of ${formatMegabytes(bytes.total)}`
+                  : formatMegabytes(bytes.downloaded)}
+              </span>
+            )}
             {speed && <span>{speed}</span>}
             {eta && <span>ETA: {eta}</span>}
           </div>
         )}
 
-        <button
-          onClick={onCancel}
-          className="text-neutral-500 hover:text-red-400 transition-colors"
-        >
-          Cancel
-        </button>
+        <div className="flex gap-3">
+          {status === 'paused' ? (
+            onResume && (
+              <button
+                onClick={onResume}
+                className="text-neutral-500 hover:text-white transition-colors"
+              >
+                Resume
+              </button>
+            )
+          ) : (
+            onPause && phase !== 'collision' && (
+              <button
+                onClick={onPause}
+                className="text-neutral-500 hover:text-white transition-colors"
+              >
+                Pause
+              </button>
+            )
+          )}
+          {onCancelGroup && (
+            <button
+              onClick={onCancelGroup}
+              className="text-neutral-500 hover:text-red-400 transition-colors"
+            >
+              Cancel playlist
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="text-neutral-500 hover:text-red-400 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
       </div>
     </div>
   )
@@ -1,6 +1,7 @@
 interface QualitySelectorProps {
   value: '128' | '192' | '256' | '320'
   onChange: (value: '128' | '192' | '256' | '320') => void
+  disabled?: boolean // lossless formats have no bitrate
 }
 
 const qualities: Array<{ value: '128' | '192' | '256' | '320'; label: string }> = [
@@ -10,19 +11,23 @@ const qualities: Array<{ value: '128' | '192' | '256' | '320'; label: string }>
   { value: '320', label: '320' },
 ]
 
-function QualitySelector({ value, onChange }: QualitySelectorProps) {
+function QualitySelector({ value, onChange, disabled }: QualitySelectorProps) {
   return (
     <div className="flex-1">
-      <label className="block text-sm text-neutral-400 mb-2">Quality (kbps)</label>
+      <label className="block text-sm text-neutral-400 mb-2">
+        {disabled ? 'Quality (lossless)' : 'Quality (kbps)'}
+      </label>
       <div className="flex gap-1 bg-neutral-800 rounded-lg p-1">
         {qualities.map((q) => (
           <button
             key={q.value}
             onClick={() => onChange(q.value)}
+            disabled={disabled}
             className={`
               flex-1 px-3 py-2 rounded-md text-sm font-medium
               transition-all duration-150
-              ${value === q.value
+              disabled:opacity-40 disabled:cursor-not-allowed
+              ${value === q.value && !disabled
                 ? 'bg-primary-600 text-white'
                 : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
               }
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react'
+
+interface QueuePanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface QueueItem {
+  id: string
+  url: string
+  options: { notBefore?: number }
+  status: 'queued' | 'active' | 'paused' | 'completed' | 'error'
+  addedAt: number
+  priority: number
+  title?: string
+  error?: string
+}
+
+const formatStartTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+
+// Same order the queue starts them in
+const byQueueOrder = (a: QueueItem, b: QueueItem) => b.priority - a.priority || a.addedAt - b.addedAt
+
+function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    window.api.getQueueStatus()
+      .then((status) => setItems(status.downloads))
+      .catch((err) => console.error('Failed to load queue:', err))
+
+    return window.api.onQueueUpdated((status) => setItems(status.downloads))
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const active = items.filter((item) => item.status === 'active')
+  const waiting = items.filter((item) => item.status === 'queued' || item.status === 'paused').sort(byQueueOrder)
+  const failed = items.filter((item) => item.status === 'error')
+
+  const handleDrop = async () => {
+    if (draggingId === null || dropIndex === null) return
+
+    const ids = waiting.map((item) => item.id)
+    const from = ids.indexOf(draggingId)
+    ids.splice(from, 1)
+    ids.splice(dropIndex > from ? dropIndex - 1 : dropIndex, 0, draggingId)
+    setDraggingId(null)
+    setDropIndex(null)
+
+    // Show the new order right away, the queue broadcasts the result
+    setItems((prev) => prev.map((item) => {
+      const index = ids.indexOf(item.id)
+      return index >= 0 ? { ...item, priority: ids.length - index } : item
+    }))
+    try {
+      await window.api.reorderQueue(ids)
+    } catch (error) {
+      console.error('Failed to reorder queue:', error)
+    }
+  }
+
+  const run = (action: Promise<unknown>) => {
+    action.catch((error) => console.error('Queue action failed:', error))
+  }
+
+  const label = (item: QueueItem) => item.title || item.url
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-neutral-800 rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Queue</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {items.length === 0 && (
+          <p className="text-sm text-neutral-500">Nothing is queued.</p>
+        )}
+
+        {/* Running downloads */}
+        {active.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-xs uppercase tracking-wide text-neutral-500 mb-2">Downloading</h3>
+            <ul className="space-y-1">
+              {active.map((item) => (
+                <li key={item.id} className="flex items-center gap-3 bg-neutral-900/50 rounded-lg px-3 py-2">
+                  <span className="flex-1 text-sm text-white truncate" title={label(item)}>{label(item)}</span>
+                  <button
+                    onClick={() => run(window.api.pauseDownload(item.id))}
+                    className="text-xs text-neutral-400 hover:text-white transition-colors"
+                  >
+                    Pause
+                  </button>
+                  <button
+                    onClick={() => run(window.api.cancelDownload(item.id))}
+                    className="text-xs text-neutral-400 hover:text-red-400 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Waiting downloads, drag to reorder */}
+        {waiting.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-xs uppercase tracking-wide text-neutral-500 mb-2">Up next</h3>
+            <ul
+              className="space-y-1"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault()
+                handleDrop()
+              }}
+            >
+              {waiting.map((item, index) => (
+                <li
+                  key={item.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggingId(item.id)
+                  }}
+                  onDragOver={(e) => {
+                    e.preventDefault()
+                    // Drop above or below depending on which half is hovered
+                    const rect = e.currentTarget.getBoundingClientRect()
+                    setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1)
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null)
+                    setDropIndex(null)
+                  }}
+                  className={`
+                    bg-neutral-900/50 rounded-lg px-3 py-2 cursor-grab
+                    ${draggingId === item.id ? 'opacity-50' : ''}
+                    ${dropIndex === index && draggingId !== item.id ? 'border-t-2 border-primary-500' : ''}
+                    ${dropIndex === index + 1 && index === waiting.length - 1 ? 'border-b-2 border-primary-500' : ''}
+                  `}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-neutral-500 w-5 text-right">{index + 1}</span>
+                    <span
+                      className={`flex-1 text-sm truncate ${item.status === 'paused' ? 'text-neutral-500' : 'text-white'}`}
+                      title={label(item)}
+                    >
+                      {label(item)}
+                    </span>
+                    {item.status === 'paused' ? (
+                      <span className="text-xs text-neutral-500">Paused</span>
+                    ) : item.options.notBefore && item.options.notBefore > Date.now() && (
+                      <span className="text-xs text-neutral-500">{formatStartTime(item.options.notBefore)}</span>
+                    )}
+                  </div>
+                  <div className="flex gap-3 mt-1 ml-8 text-xs">
+                    <button
+                      onClick={() => run(window.api.downloadNext(item.id))}
+                      className="text-neutral-400 hover:text-white transition-colors"
+                    >
+                      Download next
+                    </button>
+                    <button
+                      onClick={() => run(window.api.moveInQueue(item.id, 'top'))}
+                      disabled={index === 0}
+                      className="text-neutral-400 hover:text-white disabled:opacity-40 transition-colors"
+                    >
+                      Top
+                    </button>
+                    <button
+                      onClick={() => run(window.api.moveInQueue(item.id, 'bottom'))}
+                      disabled={index === waiting.length - 1}
+                      className="text-neutral-400 hover:text-white disabled:opacity-40 transition-colors"
+                    >
+                      Bottom
+                    </button>
+                    <button
+                      onClick={() => run(item.status === 'paused'
+                        ? window.api.resumeDownload(item.id)
+                        : window.api.pauseDownload(item.id))}
+                      className="text-neutral-400 hover:text-white transition-colors"
+                    >
+                      {item.status === 'paused' ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => run(window.api.cancelDownload(item.id))}
+                      className="text-neutral-400 hover:text-red-400 transition-colors ml-auto"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Failed downloads stay listed until they are retried or removed */}
+        {failed.length > 0 && (
+          <div>
+            <h3 className="text-xs uppercase tracking-wide text-neutral-500 mb-2">Failed</h3>
+            <ul className="space-y-1">
+              {failed.map((item) => (
+                <li key={item.id} className="bg-neutral-900/50 rounded-lg px-3 py-2">
+                  <p className="text-sm text-white truncate" title={label(item)}>{label(item)}</p>
+                  {item.error && (
+                    <p className="text-xs text-red-400 mt-0.5 line-clamp-2" title={item.error}>{item.error}</p>
+                  )}
+                  <div className="flex gap-3 mt-1 text-xs">
+                    <button
+                      onClick={() => run(window.api.retryDownload(item.id))}
+                      className="text-neutral-400 hover:text-white transition-colors"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => run(window.api.cancelDownload(item.id))}
+                      className="text-neutral-400 hover:text-red-400 transition-colors ml-auto"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default QueuePanel
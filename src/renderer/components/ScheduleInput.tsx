@@ -0,0 +1,42 @@
+interface ScheduleInputProps {
+  value: string // datetime-local value, empty = start right away
+  onChange: (value: string) => void
+}
+
+function ScheduleInput({ value, onChange }: ScheduleInputProps) {
+  const isPast = value !== '' && new Date(value).getTime() <= Date.now()
+
+  return (
+    <div>
+      <label className="block text-sm text-neutral-400 mb-2">Start at (optional)</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="datetime-local"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={`
+            w-full px-3 py-2
+            bg-neutral-800
+            border-2 rounded-lg
+            text-sm text-white
+            transition-all duration-200
+            ${isPast ? 'border-red-500' : 'border-neutral-700 focus:border-primary-500'}
+          `}
+        />
+        {value && (
+          <button
+            onClick={() => onChange('')}
+            className="text-sm text-neutral-500 hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {isPast && (
+        <p className="text-xs text-red-400 mt-1">This time has passed, the download starts right away</p>
+      )}
+    </div>
+  )
+}
+
+export default ScheduleInput
@@ -1,13 +1,67 @@
 import { useState, useEffect } from 'react'
+import FilenameTemplateInput from './FilenameTemplateInput'
+import CookieSettings from './CookieSettings'
+
+interface BandwidthProfile {
+  start: number // minutes after midnight
+  end: number
+  limit: number // KB/s, 0 = unlimited
+}
 
 interface DownloadSettings {
   maxConcurrentDownloads: number
   maxRetries: number
   downloadTimeout: number
   bandwidthLimit: number
+  bandwidthProfiles: BandwidthProfile[]
   autoRetry: boolean
+  embedMetadata: boolean
+  cropThumbnail: boolean
+  normalization: 'podcast' | 'music' | 'broadcast' | 'off'
+  filenameTemplate: string
+  playlistFilenameTemplate: string
+  collisionPolicy: 'skip' | 'rename' | 'overwrite' | 'ask'
+  duplicateHandling: 'warn' | 'skip' | 'off'
+  keepPartialDays: number
+  downloadWindow: { start: number; end: number } | null
+}
+
+// Overnight by default when the window is first turned on
+const DEFAULT_DOWNLOAD_WINDOW = { start: 60, end: 420 }
+
+// Working hours at 500 KB/s for a new bandwidth profile
+const DEFAULT_BANDWIDTH_PROFILE: BandwidthProfile = { start: 540, end: 1020, limit: 500 }
+const MAX_BANDWIDTH_PROFILES = 4
+const PROFILE_LIMITS = [100, 250, 500, 1000, 2000, 5000, 0]
+
+// Minutes after midnight <-> "HH:MM" for time inputs
+const toTimeValue = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+const fromTimeValue = (value: string): number | null => {
+  const match = value.match(/^(\d{2}):(\d{2})$/)
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null
 }
 
+const normalizationOptions: Array<{ value: DownloadSettings['normalization']; label: string; hint: string }> = [
+  { value: 'off', label: 'Off', hint: 'Keep original volume' },
+  { value: 'podcast', label: 'Podcast', hint: '-16 LUFS, -1.5 dBTP' },
+  { value: 'music', label: 'Music', hint: '-14 LUFS, -1 dBTP' },
+  { value: 'broadcast', label: 'Broadcast', hint: '-23 LUFS (EBU R128), -1 dBTP' },
+]
+
+const collisionOptions: Array<{ value: DownloadSettings['collisionPolicy']; label: string; hint: string }> = [
+  { value: 'rename', label: 'Number', hint: 'Save as "title (2)"' },
+  { value: 'skip', label: 'Skip', hint: 'Keep the existing file' },
+  { value: 'overwrite', label: 'Replace', hint: 'Overwrite the existing file' },
+  { value: 'ask', label: 'Ask', hint: 'Decide for each download' },
+]
+
+const duplicateOptions: Array<{ value: DownloadSettings['duplicateHandling']; label: string; hint: string }> = [
+  { value: 'warn', label: 'Warn', hint: 'Ask before downloading again' },
+  { value: 'skip', label: 'Skip', hint: 'Never download twice' },
+  { value: 'off', label: 'Off', hint: 'Always download' },
+]
+
 interface SettingsPanelProps {
   isOpen: boolean
   onClose: () => void
@@ -78,7 +132,7 @@ function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm">
-      <div className="bg-neutral-800 rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl">
+      <div className="bg-neutral-800 rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-bold text-white">Download Settings</h2>
           <button
@@ -151,6 +205,74 @@ function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                 <span>Unlimited</span>
                 <span>10 MB/s</span>
               </div>
+              <p className="text-xs text-neutral-500 mt-1">
+                Shared by all running downloads
+              </p>
+            </div>
+
+            {/* Bandwidth Profiles */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <span className="text-sm text-neutral-300">Limits by time of day</span>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    Replace the bandwidth limit during these hours
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleChange('bandwidthProfiles', [...settings.bandwidthProfiles, DEFAULT_BANDWIDTH_PROFILE])}
+                  disabled={settings.bandwidthProfiles.length >= MAX_BANDWIDTH_PROFILES}
+                  className="text-sm text-primary-400 hover:text-primary-300 disabled:opacity-40 transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+              <div className="space-y-2">
+                {settings.bandwidthProfiles.map((profile, index) => {
+                  const updateProfile = (changes: Partial<BandwidthProfile>) => {
+                    handleChange('bandwidthProfiles', settings.bandwidthProfiles.map((p, i) =>
+                      i === index ? { ...p, ...changes } : p
+                    ))
+                  }
+
+                  return (
+                    <div key={index} className="flex items-center gap-2">
+                      {(['start', 'end'] as const).map((edge) => (
+                        <input
+                          key={edge}
+                          type="time"
+                          value={toTimeValue(profile[edge])}
+                          onChange={(e) => {
+                            const minutes = fromTimeValue(e.target.value)
+                            if (minutes !== null) {
+                              updateProfile({ [edge]: minutes })
+                            }
+                          }}
+                          className="w-full px-2 py-1.5 bg-neutral-900 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-sm text-white"
+                        />
+                      ))}
+                      <select
+                        value={profile.limit}
+                        onChange={(e) => updateProfile({ limit: parseInt(e.target.value) })}
+                        className="px-2 py-1.5 bg-neutral-900 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-sm text-white"
+                      >
+                        {(PROFILE_LIMITS.includes(profile.limit) ? PROFILE_LIMITS : [profile.limit, ...PROFILE_LIMITS]).map((limit) => (
+                          <option key={limit} value={limit}>{formatBandwidth(limit)}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleChange('bandwidthProfiles', settings.bandwidthProfiles.filter((_, i) => i !== index))}
+                        className="text-neutral-500 hover:text-red-400 transition-colors"
+                        title="Remove"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
             </div>
 
             {/* Auto Retry Toggle */}
@@ -203,11 +325,169 @@ function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
               </div>
             )}
 
-            {/* Download Timeout */}
+            {/* Embed Metadata Toggle */}
+            <div className="flex items-center justify-between py-2">
+              <div>
+                <span className="text-sm text-neutral-300">Embed tags and cover art</span>
+                <p className="text-xs text-neutral-500 mt-0.5">
+                  Artist, title, album, date, source URL and thumbnail
+                </p>
+              </div>
+              <button
+                onClick={() => handleChange('embedMetadata', !settings.embedMetadata)}
+                className={`
+                  relative w-11 h-6 rounded-full transition-colors duration-200
+                  ${settings.embedMetadata ? 'bg-primary-500' : 'bg-neutral-600'}
+                `}
+              >
+                <div
+                  className={`
+                    absolute top-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform duration-200
+                    ${settings.embedMetadata ? 'translate-x-5' : 'translate-x-0.5'}
+                  `}
+                />
+              </button>
+            </div>
+
+            {/* Square Cover Toggle (only visible when tagging is enabled) */}
+            {settings.embedMetadata && (
+              <div className="flex items-center justify-between py-2">
+                <div>
+                  <span className="text-sm text-neutral-300">Square cover art</span>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    Crop the thumbnail to a centered square
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleChange('cropThumbnail', !settings.cropThumbnail)}
+                  className={`
+                    relative w-11 h-6 rounded-full transition-colors duration-200
+                    ${settings.cropThumbnail ? 'bg-primary-500' : 'bg-neutral-600'}
+                  `}
+                >
+                  <div
+                    className={`
+                      absolute top-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform duration-200
+                      ${settings.cropThumbnail ? 'translate-x-5' : 'translate-x-0.5'}
+                    `}
+                  />
+                </button>
+              </div>
+            )}
+
+            {/* Loudness Normalization */}
             <div>
               <div className="flex items-center justify-between mb-2">
                 <label className="text-sm text-neutral-300">
-                  Download Timeout
+                  Loudness Normalization
+                </label>
+                <span className="text-xs text-neutral-500">
+                  {normalizationOptions.find((o) => o.value === settings.normalization)?.hint}
+                </span>
+              </div>
+              <div className="flex gap-1 bg-neutral-900 rounded-lg p-1">
+                {normalizationOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleChange('normalization', option.value)}
+                    className={`
+                      flex-1 px-2 py-1.5 rounded-md text-xs font-medium
+                      transition-all duration-150
+                      ${settings.normalization === option.value
+                        ? 'bg-primary-600 text-white'
+                        : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                      }
+                    `}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Filename Templates */}
+            <div className="space-y-3">
+              <FilenameTemplateInput
+                label="Filename"
+                value={settings.filenameTemplate}
+                onSave={(value) => handleChange('filenameTemplate', value)}
+              />
+              <FilenameTemplateInput
+                label="Playlist filename"
+                value={settings.playlistFilenameTemplate}
+                onSave={(value) => handleChange('playlistFilenameTemplate', value)}
+              />
+              <p className="text-xs text-neutral-500">
+                Fields: {'{title} {id} {uploader} {channel} {upload_date:%Y-%m-%d} {playlist} {index:02} {playlist_count} {format}'}.
+                Use / for subfolders.
+              </p>
+            </div>
+
+            {/* Existing Files */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-neutral-300">
+                  When a file already exists
+                </label>
+                <span className="text-xs text-neutral-500">
+                  {collisionOptions.find((o) => o.value === settings.collisionPolicy)?.hint}
+                </span>
+              </div>
+              <div className="flex gap-1 bg-neutral-900 rounded-lg p-1">
+                {collisionOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleChange('collisionPolicy', option.value)}
+                    className={`
+                      flex-1 px-2 py-1.5 rounded-md text-xs font-medium
+                      transition-all duration-150
+                      ${settings.collisionPolicy === option.value
+                        ? 'bg-primary-600 text-white'
+                        : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                      }
+                    `}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Already Downloaded */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-neutral-300">
+                  Already downloaded videos
+                </label>
+                <span className="text-xs text-neutral-500">
+                  {duplicateOptions.find((o) => o.value === settings.duplicateHandling)?.hint}
+                </span>
+              </div>
+              <div className="flex gap-1 bg-neutral-900 rounded-lg p-1">
+                {duplicateOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleChange('duplicateHandling', option.value)}
+                    className={`
+                      flex-1 px-2 py-1.5 rounded-md text-xs font-medium
+                      transition-all duration-150
+                      ${settings.duplicateHandling === option.value
+                        ? 'bg-primary-600 text-white'
+                        : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                      }
+                    `}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Stall Timeout */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-neutral-300">
+                  Stall Timeout
                 </label>
                 <span className="text-sm text-primary-400 font-medium">
                   {settings.downloadTimeout >= 60
@@ -228,7 +508,84 @@ function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                 <span>1 min</span>
                 <span>10 min</span>
               </div>
+              <p className="text-xs text-neutral-500 mt-1">
+                An attempt that makes no progress for this long is stopped
+              </p>
             </div>
+
+            {/* Download Window */}
+            <div>
+              <div className="flex items-center justify-between py-2">
+                <div>
+                  <span className="text-sm text-neutral-300">Only start downloads between</span>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    Queued downloads wait for the window, running ones finish
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleChange('downloadWindow', settings.downloadWindow ? null : DEFAULT_DOWNLOAD_WINDOW)}
+                  className={`
+                    relative w-11 h-6 rounded-full transition-colors duration-200
+                    ${settings.downloadWindow ? 'bg-primary-500' : 'bg-neutral-600'}
+                  `}
+                >
+                  <div
+                    className={`
+                      absolute top-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform duration-200
+                      ${settings.downloadWindow ? 'translate-x-5' : 'translate-x-0.5'}
+                    `}
+                  />
+                </button>
+              </div>
+              {settings.downloadWindow && (
+                <div className="flex items-center gap-2">
+                  {(['start', 'end'] as const).map((edge, index) => (
+                    <div key={edge} className="flex items-center gap-2 flex-1">
+                      {index === 1 && <span className="text-sm text-neutral-500">and</span>}
+                      <input
+                        type="time"
+                        value={toTimeValue(settings.downloadWindow![edge])}
+                        onChange={(e) => {
+                          const minutes = fromTimeValue(e.target.value)
+                          if (minutes !== null) {
+                            handleChange('downloadWindow', { ...settings.downloadWindow!, [edge]: minutes })
+                          }
+                        }}
+                        className="w-full px-3 py-2 bg-neutral-900 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-sm text-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Partial Downloads */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-neutral-300">
+                  Keep Partial Downloads
+                </label>
+                <span className="text-sm text-primary-400 font-medium">
+                  {settings.keepPartialDays === 0
+                    ? 'Until next launch'
+                    : `${settings.keepPartialDays} ${settings.keepPartialDays === 1 ? 'day' : 'days'}`}
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="30"
+                value={settings.keepPartialDays}
+                onChange={(e) => handleChange('keepPartialDays', parseInt(e.target.value))}
+                className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+              />
+              <p className="text-xs text-neutral-500 mt-1">
+                Failed downloads can continue from what was already fetched
+              </p>
+            </div>
+
+            {/* Cookies */}
+            <CookieSettings />
           </div>
         )}
 
@@ -1,11 +1,34 @@
+import { useEffect, useState } from 'react'
+
 interface SpeedSelectorProps {
   value: number
   onChange: (value: number) => void
 }
 
-const speeds = [1, 1.25, 1.5, 2]
+const speeds = [0.5, 1, 1.25, 1.5, 2]
+
+const MIN_SPEED = 0.25
+const MAX_SPEED = 4
 
 function SpeedSelector({ value, onChange }: SpeedSelectorProps) {
+  // Free-entry text is kept separately so partial input like "1." can be typed
+  const [customText, setCustomText] = useState(String(value))
+
+  useEffect(() => {
+    setCustomText(String(value))
+  }, [value])
+
+  const handleCustomChange = (text: string) => {
+    setCustomText(text)
+    const parsed = parseFloat(text)
+    if (!isNaN(parsed) && parsed >= MIN_SPEED && parsed <= MAX_SPEED) {
+      onChange(Math.round(parsed * 100) / 100)
+    }
+  }
+
+  const customParsed = parseFloat(customText)
+  const isCustomValid = !isNaN(customParsed) && customParsed >= MIN_SPEED && customParsed <= MAX_SPEED
+
   return (
     <div className="flex-1">
       <label className="block text-sm text-neutral-400 mb-2">Speed</label>
@@ -15,7 +38,7 @@ function SpeedSelector({ value, onChange }: SpeedSelectorProps) {
             key={speed}
             onClick={() => onChange(speed)}
             className={`
-              flex-1 px-3 py-2 rounded-md text-sm font-medium
+              flex-1 px-2 py-2 rounded-md text-sm font-medium
               transition-all duration-150
               ${value === speed
                 ? 'bg-primary-600 text-white'
@@ -26,6 +49,22 @@ function SpeedSelector({ value, onChange }: SpeedSelectorProps) {
             {speed}x
           </button>
         ))}
+        <input
+          type="number"
+          min={MIN_SPEED}
+          max={MAX_SPEED}
+          step="0.05"
+          value={customText}
+          onChange={(e) => handleCustomChange(e.target.value)}
+          onBlur={() => setCustomText(String(value))}
+          title={`Custom speed (${MIN_SPEED}x - ${MAX_SPEED}x)`}
+          className={`
+            w-16 px-2 py-2 rounded-md text-sm font-medium text-center
+            bg-neutral-900 border
+            ${!speeds.includes(value) ? 'text-white border-primary-600' : 'text-neutral-400 border-transparent'}
+            ${isCustomValid ? '' : 'border-red-500'}
+          `}
+        />
       </div>
     </div>
   )
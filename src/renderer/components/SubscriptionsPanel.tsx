@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react'
+import ModeSelector from './ModeSelector'
+import FormatSelector, { formats, isLosslessFormat } from './FormatSelector'
+import QualitySelector from './QualitySelector'
+import SpeedSelector from './SpeedSelector'
+
+interface SubscriptionsPanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const DEFAULT_PRESET: SubscriptionPreset = { mode: 'audio', format: 'mp3', quality: '320', speed: 1 }
+
+const formatLastChecked = (timestamp?: number): string => {
+  if (!timestamp) return 'Never checked'
+  const minutes = Math.floor((Date.now() - timestamp) / 60000)
+  if (minutes < 1) return 'Checked just now'
+  if (minutes < 60) return `Checked ${minutes} min ago`
+  if (minutes < 1440) return `Checked ${Math.floor(minutes / 60)} h ago`
+  return `Checked ${new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+}
+
+const describePreset = (preset: SubscriptionPreset): string => {
+  const parts = [preset.mode === 'video' ? 'Video' : formats.find((f) => f.value === preset.format)?.label || preset.format]
+  if (preset.mode === 'audio' && !isLosslessFormat(preset.format)) {
+    parts.push(`${preset.quality} kbps`)
+  }
+  if (preset.speed !== 1) {
+    parts.push(`${preset.speed}x`)
+  }
+  return parts.join(' · ')
+}
+
+interface PresetFieldsProps {
+  value: SubscriptionPreset
+  onChange: (value: SubscriptionPreset) => void
+}
+
+function PresetFields({ value, onChange }: PresetFieldsProps) {
+  const handleSelectFolder = async () => {
+    const folder = await window.api.selectFolder()
+    if (folder) {
+      onChange({ ...value, outputDir: folder })
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <ModeSelector value={value.mode} onChange={(mode) => onChange({ ...value, mode })} />
+      {value.mode === 'audio' && (
+        <>
+          <FormatSelector value={value.format} onChange={(format) => onChange({ ...value, format })} />
+          <QualitySelector
+            value={value.quality}
+            onChange={(quality) => onChange({ ...value, quality })}
+            disabled={isLosslessFormat(value.format)}
+          />
+        </>
+      )}
+      <SpeedSelector value={value.speed} onChange={(speed) => onChange({ ...value, speed })} />
+      <div className="flex items-center gap-2 text-sm">
+        <span className="flex-1 text-neutral-400 truncate" title={value.outputDir}>
+          {value.outputDir || 'Default download folder'}
+        </span>
+        {value.outputDir && (
+          <button
+            onClick={() => onChange({ ...value, outputDir: undefined })}
+            className="text-neutral-500 hover:text-white transition-colors"
+          >
+            Reset
+          </button>
+        )}
+        <button
+          onClick={handleSelectFolder}
+          className="px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-lg transition-colors"
+        >
+          Choose folder
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function SubscriptionsPanel({ isOpen, onClose }: SubscriptionsPanelProps) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const [url, setUrl] = useState('')
+  const [preset, setPreset] = useState<SubscriptionPreset>(DEFAULT_PRESET)
+  const [includeExisting, setIncludeExisting] = useState(false)
+  const [isAdding, setIsAdding] = useState(false)
+  const [addError, setAddError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [checkingIds, setCheckingIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    window.api.getSubscriptions()
+      .then(setSubscriptions)
+      .catch((err) => console.error('Failed to load subscriptions:', err))
+
+    // Periodic checks update last check time and errors in the background
+    return window.api.onSubscriptionsUpdated(setSubscriptions)
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const handleAdd = async () => {
+    if (!url.trim()) return
+
+    setIsAdding(true)
+    setAddError(null)
+    try {
+      await window.api.addSubscription(url.trim(), preset, includeExisting)
+      setSubscriptions(await window.api.getSubscriptions())
+      setUrl('')
+      setIncludeExisting(false)
+    } catch (error: any) {
+      console.error('Failed to add subscription:', error)
+      setAddError(error?.message || 'Failed to add subscription')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleCheck = async (id: string) => {
+    setCheckingIds((prev) => new Set(prev).add(id))
+    try {
+      await window.api.checkSubscriptions(id)
+    } catch (error) {
+      console.error('Failed to check subscription:', error)
+    } finally {
+      setCheckingIds((prev) => {
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }
+  }
+
+  const handleUpdate = async (id: string, changes: { preset?: SubscriptionPreset; enabled?: boolean }) => {
+    try {
+      const updated = await window.api.updateSubscription(id, changes)
+      if (updated) {
+        setSubscriptions((prev) => prev.map((s) => (s.id === id ? updated : s)))
+      }
+    } catch (error) {
+      console.error('Failed to update subscription:', error)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    try {
+      await window.api.removeSubscription(id)
+      setSubscriptions((prev) => prev.filter((s) => s.id !== id))
+    } catch (error) {
+      console.error('Failed to remove subscription:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-neutral-800 rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">Subscriptions</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Subscription list */}
+        {subscriptions.length === 0 ? (
+          <p className="text-sm text-neutral-500 mb-6">
+            Subscribe to a channel or playlist to download new uploads automatically.
+          </p>
+        ) : (
+          <ul className="space-y-3 mb-6">
+            {subscriptions.map((subscription) => (
+              <li key={subscription.id} className="bg-neutral-900/50 rounded-lg p-3">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium truncate ${subscription.enabled ? 'text-white' : 'text-neutral-500'}`}>
+                      {subscription.title}
+                    </p>
+                    <p className="text-xs text-neutral-500 mt-0.5">
+                      {subscription.kind === 'channel' ? 'Channel' : 'Playlist'} · {describePreset(subscription.preset)}
+                    </p>
+                    <p className="text-xs text-neutral-500 mt-0.5">
+                      {checkingIds.has(subscription.id)
+                        ? 'Checking...'
+                        : formatLastChecked(subscription.lastCheckedAt)}
+                      {!subscription.lastError && subscription.lastNewCount
+                        ? ` · ${subscription.lastNewCount} new`
+                        : ''}
+                    </p>
+                    {subscription.lastError && (
+                      <p className="text-xs text-red-400 mt-1 line-clamp-2" title={subscription.lastError}>
+                        {subscription.lastError}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleUpdate(subscription.id, { enabled: !subscription.enabled })}
+                    title={subscription.enabled ? 'Pause checks' : 'Resume checks'}
+                    className={`
+                      relative w-11 h-6 rounded-full transition-colors duration-200 shrink-0
+                      ${subscription.enabled ? 'bg-primary-500' : 'bg-neutral-600'}
+                    `}
+                  >
+                    <div
+                      className={`
+                        absolute top-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform duration-200
+                        ${subscription.enabled ? 'translate-x-5' : 'translate-x-0.5'}
+                      `}
+                    />
+                  </button>
+                </div>
+
+                <div className="flex gap-3 mt-2 text-xs">
+                  <button
+                    onClick={() => handleCheck(subscription.id)}
+                    disabled={checkingIds.has(subscription.id)}
+                    className="text-neutral-400 hover:text-white disabled:opacity-50 transition-colors"
+                  >
+                    Check now
+                  </button>
+                  <button
+                    onClick={() => setEditingId(editingId === subscription.id ? null : subscription.id)}
+                    className="text-neutral-400 hover:text-white transition-colors"
+                  >
+                    {editingId === subscription.id ? 'Done' : 'Edit preset'}
+                  </button>
+                  <button
+                    onClick={() => handleRemove(subscription.id)}
+                    className="text-neutral-400 hover:text-red-400 transition-colors ml-auto"
+                  >
+                    Remove
+                  </button>
+                </div>
+
+                {editingId === subscription.id && (
+                  <div className="mt-3">
+                    <PresetFields
+                      value={subscription.preset}
+                      onChange={(value) => handleUpdate(subscription.id, { preset: value })}
+                    />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Add subscription */}
+        <div className="space-y-3 border-t border-neutral-700 pt-4">
+          <label className="block text-sm text-neutral-300">Add channel or playlist</label>
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://www.youtube.com/@channel"
+            className="w-full px-3 py-2 bg-neutral-900 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-sm text-white placeholder-neutral-500"
+            spellCheck={false}
+            autoComplete="off"
+          />
+          <PresetFields value={preset} onChange={setPreset} />
+          <label className="flex items-center gap-2 text-xs text-neutral-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeExisting}
+              onChange={(e) => setIncludeExisting(e.target.checked)}
+              className="accent-primary-500"
+            />
+            Also download videos that are already there
+          </label>
+          {addError && <p className="text-xs text-red-400">{addError}</p>}
+          <button
+            onClick={handleAdd}
+            disabled={!url.trim() || isAdding}
+            className="w-full px-4 py-2 bg-primary-600 hover:bg-primary-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+          >
+            {isAdding ? 'Subscribing...' : 'Subscribe'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SubscriptionsPanel
@@ -0,0 +1,81 @@
+export type SubtitleFormat = 'srt' | 'vtt' | 'txt' | 'lrc'
+
+export interface SubtitleSelection {
+  language: string
+  formats: SubtitleFormat[]
+  allowAuto: boolean
+}
+
+interface SubtitleOptionsProps {
+  value: SubtitleSelection
+  onChange: (value: SubtitleSelection) => void
+}
+
+const subtitleFormats: Array<{ value: SubtitleFormat; label: string; title: string }> = [
+  { value: 'srt', label: 'SRT', title: 'SubRip subtitles' },
+  { value: 'vtt', label: 'VTT', title: 'WebVTT subtitles' },
+  { value: 'txt', label: 'TXT', title: 'Plain-text transcript' },
+  { value: 'lrc', label: 'LRC', title: 'Time-synced lyrics for music players' },
+]
+
+function SubtitleOptions({ value, onChange }: SubtitleOptionsProps) {
+  const toggleFormat = (format: SubtitleFormat) => {
+    const formats = value.formats.includes(format)
+      ? value.formats.filter((f) => f !== format)
+      : [...value.formats, format]
+    onChange({ ...value, formats })
+  }
+
+  const enabled = value.formats.length > 0
+
+  return (
+    <div>
+      <label className="block text-sm text-neutral-400 mb-2">Captions &amp; transcript</label>
+      <div className="flex items-center gap-2">
+        <div className="flex gap-1 bg-neutral-800 rounded-lg p-1 flex-1">
+          {subtitleFormats.map((f) => (
+            <button
+              key={f.value}
+              onClick={() => toggleFormat(f.value)}
+              title={f.title}
+              className={`
+                flex-1 px-2 py-2 rounded-md text-sm font-medium
+                transition-all duration-150
+                ${value.formats.includes(f.value)
+                  ? 'bg-primary-600 text-white'
+                  : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                }
+              `}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={value.language}
+          onChange={(e) => onChange({ ...value, language: e.target.value.trim() })}
+          disabled={!enabled}
+          placeholder="en"
+          title="Caption language code"
+          className="w-16 px-2 py-2 bg-neutral-800 border-2 border-neutral-700 focus:border-primary-500 rounded-lg text-sm text-white text-center disabled:opacity-40"
+          spellCheck={false}
+          autoComplete="off"
+        />
+      </div>
+      {enabled && (
+        <label className="flex items-center gap-2 mt-2 text-xs text-neutral-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value.allowAuto}
+            onChange={(e) => onChange({ ...value, allowAuto: e.target.checked })}
+            className="accent-primary-500"
+          />
+          Use auto-generated captions when no manual ones exist
+        </label>
+      )}
+    </div>
+  )
+}
+
+export default SubtitleOptions
@@ -6,6 +6,26 @@ interface URLInputProps {
   disabled?: boolean
 }
 
+const isYouTubeURL = (url: string): boolean => {
+  const patterns = [
+    /youtube\.com\/watch\?v=/,
+    /youtu\.be\//,
+    /youtube\.com\/shorts\//,
+    /youtube\.com\/embed\//,
+    /music\.youtube\.com\/watch\?v=/,
+    /youtube\.com\/playlist\?list=/,
+  ]
+  return patterns.some((pattern) => pattern.test(url))
+}
+
+// Playlist pages and watch links that carry a playlist (&list=)
+export const isPlaylistURL = (url: string): boolean =>
+  isYouTubeURL(url) && /[?&]list=[\w-]+/.test(url)
+
+// Links to a single video, watch links carrying a playlist included
+export const isVideoURL = (url: string): boolean =>
+  isYouTubeURL(url) && !/youtube\.com\/playlist\?/.test(url)
+
 function URLInput({ value, onChange, disabled }: URLInputProps) {
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -37,17 +57,6 @@ function URLInput({ value, onChange, disabled }: URLInputProps) {
     }
   }
 
-  const isYouTubeURL = (url: string): boolean => {
-    const patterns = [
-      /youtube\.com\/watch\?v=/,
-      /youtu\.be\//,
-      /youtube\.com\/shorts\//,
-      /youtube\.com\/embed\//,
-      /music\.youtube\.com\/watch\?v=/,
-    ]
-    return patterns.some((pattern) => pattern.test(url))
-  }
-
   const isValidURL = value.trim() === '' || isYouTubeURL(value)
 
   return (
@@ -0,0 +1,92 @@
+export type VideoContainer = 'mp4' | 'mkv'
+
+interface VideoOptionsProps {
+  container: VideoContainer
+  maxHeight: number
+  embedSubtitles: boolean
+  onChange: (options: { container: VideoContainer; maxHeight: number; embedSubtitles: boolean }) => void
+}
+
+const containers: Array<{ value: VideoContainer; label: string }> = [
+  { value: 'mp4', label: 'MP4' },
+  { value: 'mkv', label: 'MKV' },
+]
+
+const heights = [360, 480, 720, 1080, 1440, 2160]
+
+function VideoOptions({ container, maxHeight, embedSubtitles, onChange }: VideoOptionsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-4">
+        <div>
+          <label className="block text-sm text-neutral-400 mb-2">Container</label>
+          <div className="flex gap-1 bg-neutral-800 rounded-lg p-1">
+            {containers.map((c) => (
+              <button
+                key={c.value}
+                onClick={() => onChange({ container: c.value, maxHeight, embedSubtitles })}
+                className={`
+                  flex-1 px-3 py-2 rounded-md text-sm font-medium
+                  transition-all duration-150
+                  ${container === c.value
+                    ? 'bg-primary-600 text-white'
+                    : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                  }
+                `}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1">
+          <label className="block text-sm text-neutral-400 mb-2">Max resolution</label>
+          <div className="flex gap-1 bg-neutral-800 rounded-lg p-1">
+            {heights.map((height) => (
+              <button
+                key={height}
+                onClick={() => onChange({ container, maxHeight: height, embedSubtitles })}
+                className={`
+                  flex-1 px-2 py-2 rounded-md text-sm font-medium
+                  transition-all duration-150
+                  ${maxHeight === height
+                    ? 'bg-primary-600 text-white'
+                    : 'text-neutral-400 hover:text-white hover:bg-neutral-700'
+                  }
+                `}
+              >
+                {height}p
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-sm text-neutral-300">Embed subtitles</span>
+          <p className="text-xs text-neutral-500 mt-0.5">
+            Include the video's own subtitle tracks
+          </p>
+        </div>
+        <button
+          onClick={() => onChange({ container, maxHeight, embedSubtitles: !embedSubtitles })}
+          className={`
+            relative w-11 h-6 rounded-full transition-colors duration-200
+            ${embedSubtitles ? 'bg-primary-500' : 'bg-neutral-600'}
+          `}
+        >
+          <div
+            className={`
+              absolute top-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform duration-200
+              ${embedSubtitles ? 'translate-x-5' : 'translate-x-0.5'}
+            `}
+          />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default VideoOptions
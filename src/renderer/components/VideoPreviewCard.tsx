@@ -0,0 +1,69 @@
+interface VideoPreviewCardProps {
+  preview: VideoPreview | null
+  loading: boolean
+  error: string | null
+  mode: 'audio' | 'video'
+}
+
+const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.floor(seconds % 60)
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m)
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`
+}
+
+// "4.2 MB", "1.3 GB"
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function VideoPreviewCard({ preview, loading, error, mode }: VideoPreviewCardProps) {
+  if (loading) {
+    return (
+      <div className="flex gap-3 bg-neutral-800/50 rounded-lg p-3 animate-pulse">
+        <div className="w-28 aspect-video bg-neutral-700 rounded-md flex-shrink-0" />
+        <div className="flex-1 space-y-2 py-1">
+          <div className="h-3 bg-neutral-700 rounded w-3/4" />
+          <div className="h-3 bg-neutral-700 rounded w-1/3" />
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-neutral-500">{error}</p>
+  }
+
+  if (!preview) return null
+
+  // Size of what the download fetches, conversion changes it somewhat
+  const size = mode === 'audio' ? preview.estimatedSize.audio : preview.estimatedSize.video
+  const details = [
+    preview.channel,
+    preview.duration !== undefined ? formatDuration(preview.duration) : undefined,
+    preview.chapters.length > 1 ? `${preview.chapters.length} chapters` : undefined,
+    size !== undefined ? `~${formatSize(size)}` : undefined,
+  ].filter(Boolean)
+
+  return (
+    <div className="flex gap-3 bg-neutral-800/50 rounded-lg p-3">
+      {preview.thumbnail && (
+        <img
+          src={preview.thumbnail}
+          alt=""
+          className="w-28 aspect-video object-cover rounded-md flex-shrink-0 bg-neutral-700"
+        />
+      )}
+      <div className="min-w-0 py-0.5">
+        <p className="text-sm text-white font-medium line-clamp-2" title={preview.title}>{preview.title}</p>
+        {details.length > 0 && (
+          <p className="text-xs text-neutral-500 mt-1 truncate">{details.join(' · ')}</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default VideoPreviewCard
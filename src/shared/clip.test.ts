@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { parseClipTime, getClipRangeError, getClipInputError } from './clip'
+
+describe('parseClipTime', () => {
+  it('treats an empty value as no bound', () => {
+    expect(parseClipTime(undefined, 'start')).toBeUndefined()
+    expect(parseClipTime('  ', 'end')).toBeUndefined()
+  })
+
+  it('parses seconds, clock and unit formats', () => {
+    expect(parseClipTime('90', 'start')).toBe(90)
+    expect(parseClipTime('1:02:03', 'start')).toBe(3723)
+    expect(parseClipTime('2m30s', 'end')).toBe(150)
+  })
+
+  it('throws on a value that is not a time', () => {
+    expect(() => parseClipTime('abc', 'start')).toThrow('Invalid clip start time')
+    expect(() => parseClipTime('1:75', 'end')).toThrow('Invalid clip end time')
+    expect(() => parseClipTime(-5, 'start')).toThrow('Invalid clip start time')
+  })
+})
+
+describe('getClipRangeError', () => {
+  it('accepts a range inside the video', () => {
+    expect(getClipRangeError(10, 20, 60)).toBeNull()
+    expect(getClipRangeError(undefined, 60, 60)).toBeNull()
+    expect(getClipRangeError(10, undefined)).toBeNull()
+  })
+
+  it('rejects an end before the start', () => {
+    expect(getClipRangeError(20, 20)).toBe('Clip end time must be after the start time')
+  })
+
+  it('rejects bounds past the known duration', () => {
+    expect(getClipRangeError(60, undefined, 60)).toBe('Clip start is past the end of the video (1:00)')
+    expect(getClipRangeError(10, 3700, 3600)).toBe('Clip end is past the end of the video (1:00:00)')
+  })
+})
+
+describe('getClipInputError', () => {
+  it('checks the typed range like the main process does', () => {
+    expect(getClipInputError('', '', 60)).toBeNull()
+    expect(getClipInputError('0:10', '1m', 60)).toBeNull()
+    expect(getClipInputError('1:75', '', 60)).toBe('Invalid clip start time: 1:75')
+    expect(getClipInputError('0:30', '10', 60)).toBe('Clip end time must be after the start time')
+    expect(getClipInputError('', '2:00', 60)).toBe('Clip end is past the end of the video (1:00)')
+  })
+})
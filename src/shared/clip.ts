@@ -0,0 +1,91 @@
+// Clip range parsing and checks, used by the main process and by the renderer's clip input
+
+// Parse a timestamp given as seconds (number or string), "m:ss", "h:mm:ss"
+// or YouTube's "1h2m3s" style. Returns undefined when the value is not a time.
+export function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : undefined
+  }
+  if (typeof value !== 'string') {
+    return undefined
+  }
+
+  const trimmed = value.trim()
+  if (!trimmed) {
+    return undefined
+  }
+
+  // Plain seconds: "90", "90.5", "90s"
+  const secondsMatch = trimmed.match(/^(\d+(?:\.\d+)?)s?$/)
+  if (secondsMatch) {
+    return parseFloat(secondsMatch[1])
+  }
+
+  // Clock format: "1:30", "1:02:03"
+  const clockMatch = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/)
+  if (clockMatch) {
+    const hours = parseInt(clockMatch[1] || '0', 10)
+    const minutes = parseInt(clockMatch[2], 10)
+    const seconds = parseFloat(clockMatch[3])
+    if (minutes >= 60 || seconds >= 60) return undefined
+    return hours * 3600 + minutes * 60 + seconds
+  }
+
+  // YouTube format: "1h2m3s", "2m30s"
+  const unitMatch = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/)
+  if (unitMatch && (unitMatch[1] || unitMatch[2] || unitMatch[3])) {
+    const hours = parseInt(unitMatch[1] || '0', 10)
+    const minutes = parseInt(unitMatch[2] || '0', 10)
+    const seconds = parseInt(unitMatch[3] || '0', 10)
+    return hours * 3600 + minutes * 60 + seconds
+  }
+
+  return undefined
+}
+
+// Parse a clip bound, an empty value means the start or end of the video
+export function parseClipTime(value: unknown, bound: 'start' | 'end'): number | undefined {
+  if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+    return undefined
+  }
+  const seconds = parseTimestamp(value)
+  if (seconds === undefined) {
+    throw new Error(`Invalid clip ${bound} time: ${String(value)}`)
+  }
+  return seconds
+}
+
+// Why the range can't be cut from the video, or null when it can. The duration is
+// checked only when known.
+export function getClipRangeError(startTime?: number, endTime?: number, duration?: number): string | null {
+  if (startTime !== undefined && endTime !== undefined && endTime <= startTime) {
+    return 'Clip end time must be after the start time'
+  }
+  if (duration !== undefined && duration > 0) {
+    if (startTime !== undefined && startTime >= duration) {
+      return `Clip start is past the end of the video (${formatClock(duration)})`
+    }
+    if (endTime !== undefined && endTime > duration) {
+      return `Clip end is past the end of the video (${formatClock(duration)})`
+    }
+  }
+  return null
+}
+
+// "m:ss" or "h:mm:ss"
+function formatClock(seconds: number): string {
+  const total = Math.floor(seconds)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+// Why the typed range can't be downloaded, or null when it can
+export function getClipInputError(start: string, end: string, duration?: number): string | null {
+  try {
+    return getClipRangeError(parseClipTime(start, 'start'), parseClipTime(end, 'end'), duration)
+  } catch (error: any) {
+    return error.message
+  }
+}
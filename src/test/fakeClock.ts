@@ -0,0 +1,43 @@
+// Test helper: a Clock whose time only moves when a test says so
+
+import { Clock } from '../main/services/schedule'
+
+export interface FakeClock extends Clock {
+  // Move time forward, firing the timers that come due on the way in order
+  advance(ms: number): void
+  setTime(time: number): void
+}
+
+// Clock for tests: time only moves when the test advances it
+export function createFakeClock(start: number = 0): FakeClock {
+  let now = start
+  let nextHandle = 0
+  const timers = new Map<number, { at: number; callback: () => void }>()
+
+  const runDue = (until: number) => {
+    for (;;) {
+      let due: [number, { at: number; callback: () => void }] | null = null
+      for (const entry of timers) {
+        if (entry[1].at <= until && (!due || entry[1].at < due[1].at)) due = entry
+      }
+      if (!due) break
+      timers.delete(due[0])
+      now = Math.max(now, due[1].at)
+      due[1].callback()
+    }
+    now = until
+  }
+
+  return {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      timers.set(++nextHandle, { at: now + Math.max(0, ms), callback })
+      return nextHandle
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number)
+    },
+    advance: (ms) => runDue(now + ms),
+    setTime: (time) => runDue(time),
+  }
+}